@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { ArchiveService } from '../services/ArchiveService.ts';
-import { ViewerService } from '../services/ViewerService.ts';
+import { REPLAY_MODES, REPLAY_MODE_PARAM, ReplayMode, ViewerService } from '../services/ViewerService.ts';
+import { validateJobPriority } from '../services/archive/JobQueue.ts';
 
 export class ArchiveController {
   private archiveService: ArchiveService;
@@ -12,13 +13,18 @@ export class ArchiveController {
     
     // Set crawler limits for comprehensive archiving
     this.archiveService.setCrawlerLimits(500, 1000); // depth=500, maxPages=1000 for thorough archiving
-    console.log('🎛️ ArchiveController initialized with crawler limits: depth=500, maxPages=1000');
+    this.archiveService.setCrawlerConcurrency(4); // tabs per host sharing one browser
+    this.archiveService.setJobQueueLimits({ maxConcurrent: 2, maxPerDomain: 1 }); // each running job has its own browser
+    console.log('🎛️ ArchiveController initialized with crawler limits: depth=500, maxPages=1000, concurrency=4, jobs=2 (1 per domain)');
+
+    // Load archives now so jobs interrupted by the last shutdown are picked up without waiting for a request
+    this.archiveService.initialize().catch(error => console.error('Failed to initialize archives:', error));
   }
 
   archiveUrl = async (req: Request, res: Response): Promise<void> => {
     const startTime = Date.now();
     try {
-      const { url } = req.body;
+      const { url, options, auth, priority, profile } = req.body;
       console.log(`🚀 [${new Date().toISOString()}] Archive request received for: ${url}`);
       
       if (!url) {
@@ -27,9 +33,38 @@ export class ArchiveController {
         return;
       }
 
+      const { options: crawlOptions, errors } = await this.archiveService.resolveCrawlOptions(url, options);
+      if (!crawlOptions) {
+        console.log(`❌ Archive request rejected: invalid options (${errors.join('; ')})`);
+        res.status(400).json({ error: 'Invalid crawl options', details: errors });
+        return;
+      }
+
+      // Only the validation errors are logged; the auth payload itself may hold session cookies
+      const { auth: crawlAuth, errors: authErrors } = await this.archiveService.resolveCrawlAuth(url, auth);
+      if (authErrors.length > 0) {
+        console.log(`❌ Archive request rejected: invalid auth (${authErrors.join('; ')})`);
+        res.status(400).json({ error: 'Invalid auth', details: authErrors });
+        return;
+      }
+
+      const { priority: jobPriority, errors: priorityErrors } = validateJobPriority(priority);
+      if (jobPriority === undefined) {
+        console.log(`❌ Archive request rejected: ${priorityErrors.join('; ')}`);
+        res.status(400).json({ error: 'Invalid priority', details: priorityErrors });
+        return;
+      }
+
+      const { profile: captureProfile, errors: profileErrors } = await this.archiveService.resolveCaptureProfile(url, profile);
+      if (!captureProfile) {
+        console.log(`❌ Archive request rejected: invalid profile (${profileErrors.join('; ')})`);
+        res.status(400).json({ error: 'Invalid profile', details: profileErrors });
+        return;
+      }
+
       console.log(`📝 Creating archive for: ${url}`);
       console.log(`🎛️ Using ArchiveController with service instance:`, !!this.archiveService);
-      const result = await this.archiveService.createArchive(url);
+      const result = await this.archiveService.createArchive(url, false, crawlOptions, crawlAuth, jobPriority, captureProfile);
       
       const duration = Date.now() - startTime;
       console.log(`✅ Archive creation initiated in ${duration}ms. ID: ${result.id}`);
@@ -59,6 +94,15 @@ export class ArchiveController {
     }
   };
 
+  getQueue = async (req: Request, res: Response): Promise<void> => {
+    try {
+      res.json(this.archiveService.getQueue());
+    } catch (error) {
+      console.error('Failed to get job queue:', error);
+      res.status(500).json({ error: 'Failed to get job queue' });
+    }
+  };
+
   listArchives = async (req: Request, res: Response): Promise<void> => {
     try {
       const archives = await this.archiveService.listArchives();
@@ -69,22 +113,98 @@ export class ArchiveController {
     }
   };
 
+  getFailures = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const failures = await this.archiveService.getFailures(id);
+
+      if (!failures) {
+        res.status(404).json({ error: 'Archive not found' });
+        return;
+      }
+
+      res.json({ failures, total: failures.length });
+    } catch (error) {
+      console.error('Failed to get archive failures:', error);
+      res.status(500).json({ error: 'Failed to get archive failures' });
+    }
+  };
+
+  exportWarc = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const status = await this.archiveService.getArchiveStatus(id);
+      
+      if (!status) {
+        res.status(404).json({ error: 'Archive not found' });
+        return;
+      }
+      if (!this.archiveService.isViewable(status)) {
+        res.status(409).json({ error: 'Archive is not ready for export' });
+        return;
+      }
+
+      res.setHeader('Content-Type', 'application/warc');
+      res.setHeader('Content-Disposition', `attachment; filename="${id}.warc.gz"`);
+      await this.archiveService.exportWarc(id, res);
+      res.end();
+    } catch (error) {
+      console.error('Failed to export archive:', error);
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.status(500).json({ error: 'Failed to export archive' });
+    }
+  };
+
+  importWarc = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const file = req.file;
+      
+      if (!file) {
+        res.status(400).json({ error: 'A WARC or WACZ file is required (field name "file")' });
+        return;
+      }
+
+      console.log(`📥 Import request received for: ${file.originalname} (${file.size} bytes)`);
+      const result = await this.archiveService.importWarc(file.buffer, file.originalname);
+      
+      if (!result) {
+        res.status(400).json({ error: 'Upload is not a valid WARC/WACZ file or contains no HTML pages' });
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Failed to import archive:', error);
+      res.status(500).json({ error: 'Failed to import archive' });
+    }
+  };
+
   // Viewer endpoints
   viewArchive = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id, page: urlPage } = req.params;
       const { page: queryPage } = req.query;
+      const mode = this.getReplayMode(req, res);
+      if (!mode) return;
       
       // Use page from URL path if available, otherwise use query parameter
       const pagePath = urlPage || queryPage as string;
       
-      const result = await this.viewerService.getArchivedPage(id, pagePath);
+      const result = await this.viewerService.getArchivedPage(id, pagePath, mode);
       
       if (!result) {
         res.status(404).json({ error: 'Archive or page not found' });
         return;
       }
+      if ('redirect' in result) {
+        res.redirect(result.status, result.redirect);
+        return;
+      }
 
+      this.setReplayHeaders(res, mode);
       res.setHeader('Content-Type', result.contentType);
       res.send(result.html);
     } catch (error) {
@@ -119,15 +239,26 @@ export class ArchiveController {
         return;
       }
       
+      // The replay mode is a viewer setting, not part of the archived page's query
+      const mode = this.getReplayMode(req, res);
+      if (!mode) return;
+      resourcePath = this.withoutReplayMode(resourcePath);
+      
       // Only log resource requests occasionally to avoid spam
       if (Math.random() < 0.05) { // Log 5% of resource requests
         console.log(`🎯 Serving resource: ${resourcePath} for archive ${id}`);
       }
       
-      // First, try to serve as an HTML page
-      if (resourcePath.endsWith('.html') || resourcePath.endsWith('/') || !resourcePath.includes('.')) {
-        const pageResult = await this.viewerService.getArchivedPage(id, resourcePath);
+      // First, try to serve as an HTML page (the query string of a page is part of its lookup, not its type)
+      const resourcePathname = resourcePath.split('?')[0];
+      if (resourcePathname.endsWith('.html') || resourcePathname.endsWith('/') || !resourcePathname.includes('.')) {
+        const pageResult = await this.viewerService.getArchivedPage(id, resourcePath, mode);
+        if (pageResult && 'redirect' in pageResult) {
+          res.redirect(pageResult.status, pageResult.redirect);
+          return;
+        }
         if (pageResult) {
+          this.setReplayHeaders(res, mode);
           res.setHeader('Content-Type', pageResult.contentType);
           res.send(pageResult.html);
           return;
@@ -194,11 +325,39 @@ export class ArchiveController {
     }
   };
 
+  getPageScreenshot = async (req: Request, res: Response): Promise<void> => {
+    await this.sendPageRendition(req, res, 'screenshot');
+  };
+
+  getPagePdf = async (req: Request, res: Response): Promise<void> => {
+    await this.sendPageRendition(req, res, 'pdf');
+  };
+
+  private async sendPageRendition(req: Request, res: Response, kind: 'screenshot' | 'pdf'): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { page } = req.query;
+      
+      const result = await this.viewerService.getPageRendition(id, kind, typeof page === 'string' ? page : undefined);
+      
+      if (!result) {
+        res.status(404).json({ error: `No ${kind} found for this page` });
+        return;
+      }
+
+      res.setHeader('Content-Type', result.contentType);
+      res.send(result.data);
+    } catch (error) {
+      console.error(`Failed to get page ${kind}:`, error);
+      res.status(500).json({ error: `Failed to get page ${kind}` });
+    }
+  }
+
   // Versioning endpoints
   reArchiveUrl = async (req: Request, res: Response): Promise<void> => {
     const startTime = Date.now();
     try {
-      const { url } = req.body;
+      const { url, options, auth, priority, profile } = req.body;
       console.log(`🔄 [${new Date().toISOString()}] Re-archive request received for: ${url}`);
       
       if (!url) {
@@ -207,8 +366,37 @@ export class ArchiveController {
         return;
       }
 
+      const { options: crawlOptions, errors } = await this.archiveService.resolveCrawlOptions(url, options, true);
+      if (!crawlOptions) {
+        console.log(`❌ Re-archive request rejected: invalid options (${errors.join('; ')})`);
+        res.status(400).json({ error: 'Invalid crawl options', details: errors });
+        return;
+      }
+
+      // Only the validation errors are logged; the auth payload itself may hold session cookies
+      const { auth: crawlAuth, errors: authErrors } = await this.archiveService.resolveCrawlAuth(url, auth, true);
+      if (authErrors.length > 0) {
+        console.log(`❌ Re-archive request rejected: invalid auth (${authErrors.join('; ')})`);
+        res.status(400).json({ error: 'Invalid auth', details: authErrors });
+        return;
+      }
+
+      const { priority: jobPriority, errors: priorityErrors } = validateJobPriority(priority);
+      if (jobPriority === undefined) {
+        console.log(`❌ Re-archive request rejected: ${priorityErrors.join('; ')}`);
+        res.status(400).json({ error: 'Invalid priority', details: priorityErrors });
+        return;
+      }
+
+      const { profile: captureProfile, errors: profileErrors } = await this.archiveService.resolveCaptureProfile(url, profile, true);
+      if (!captureProfile) {
+        console.log(`❌ Re-archive request rejected: invalid profile (${profileErrors.join('; ')})`);
+        res.status(400).json({ error: 'Invalid profile', details: profileErrors });
+        return;
+      }
+
       console.log(`📝 Re-archiving URL: ${url}`);
-      const result = await this.archiveService.reArchiveUrl(url);
+      const result = await this.archiveService.reArchiveUrl(url, crawlOptions, crawlAuth, jobPriority, captureProfile);
       
       const duration = Date.now() - startTime;
       console.log(`✅ Re-archive creation initiated in ${duration}ms. ID: ${result.id}, Version: ${result.version}`);
@@ -221,6 +409,98 @@ export class ArchiveController {
     }
   };
 
+  pauseArchive = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const status = await this.archiveService.getArchiveStatus(id);
+
+      if (!status) {
+        res.status(404).json({ error: 'Archive not found' });
+        return;
+      }
+
+      const problem = this.archiveService.getJobActionProblem(status, 'pause');
+      const result = problem ? null : await this.archiveService.pauseArchive(id);
+      if (!result) {
+        res.status(409).json({ error: problem?.message || 'Archive cannot be paused' });
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Failed to pause archive:', error);
+      res.status(500).json({ error: 'Failed to pause archive' });
+    }
+  };
+
+  cancelArchive = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { keepPartial = true } = req.body || {};
+      if (typeof keepPartial !== 'boolean') {
+        res.status(400).json({ error: 'keepPartial must be a boolean' });
+        return;
+      }
+
+      const status = await this.archiveService.getArchiveStatus(id);
+      if (!status) {
+        res.status(404).json({ error: 'Archive not found' });
+        return;
+      }
+
+      const problem = this.archiveService.getJobActionProblem(status, 'cancel');
+      const result = problem ? null : await this.archiveService.cancelArchive(id, keepPartial);
+      if (!result) {
+        res.status(409).json({ error: problem?.message || 'Archive cannot be cancelled' });
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Failed to cancel archive:', error);
+      res.status(500).json({ error: 'Failed to cancel archive' });
+    }
+  };
+
+  resumeArchive = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { auth } = req.body || {};
+      const status = await this.archiveService.getArchiveStatus(id);
+
+      if (!status) {
+        res.status(404).json({ error: 'Archive not found' });
+        return;
+      }
+
+      // Only the validation errors are logged; the auth payload itself may hold session cookies
+      const { auth: crawlAuth, errors: authErrors } = await this.archiveService.resolveCrawlAuth(status.url, auth);
+      if (authErrors.length > 0) {
+        console.log(`❌ Resume request rejected: invalid auth (${authErrors.join('; ')})`);
+        res.status(400).json({ error: 'Invalid auth', details: authErrors });
+        return;
+      }
+
+      const problem = this.archiveService.getJobActionProblem(status, 'resume', crawlAuth);
+      if (problem) {
+        console.log(`❌ Resume request for ${id} rejected: ${problem.message}`);
+        res.status(problem.conflict ? 409 : 400).json({ error: problem.message });
+        return;
+      }
+
+      const result = await this.archiveService.resumeArchive(id, crawlAuth);
+      if (!result) {
+        res.status(409).json({ error: 'Archive cannot be resumed' });
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Failed to resume archive:', error);
+      res.status(500).json({ error: 'Failed to resume archive' });
+    }
+  };
+
   getArchiveVersions = async (req: Request, res: Response): Promise<void> => {
     try {
       const { url } = req.query;
@@ -237,4 +517,37 @@ export class ArchiveController {
       res.status(500).json({ error: 'Failed to get archive versions' });
     }
   };
+
+  /**
+   * The replay mode from the __replay query parameter, interactive when absent. Responds with 400 and returns null when it's invalid.
+   */
+  private getReplayMode(req: Request, res: Response): ReplayMode | null {
+    const mode = req.query[REPLAY_MODE_PARAM] ?? 'interactive';
+    if (typeof mode !== 'string' || !REPLAY_MODES.includes(mode as ReplayMode)) {
+      res.status(400).json({ error: 'Invalid replay mode', details: [`${REPLAY_MODE_PARAM} must be one of ${REPLAY_MODES.join(', ')}`] });
+      return null;
+    }
+    return mode as ReplayMode;
+  }
+
+  /**
+   * Static pages are served with a policy that blocks every script, in case the snapshot missed one
+   */
+  private setReplayHeaders(res: Response, mode: ReplayMode): void {
+    if (mode === 'static') {
+      res.setHeader('Content-Security-Policy', "script-src 'none'");
+    }
+  }
+
+  /**
+   * Drop the replay mode parameter from a resource path, leaving the rest of its query as it was sent
+   */
+  private withoutReplayMode(resourcePath: string): string {
+    const queryIndex = resourcePath.indexOf('?');
+    if (queryIndex < 0) {
+      return resourcePath;
+    }
+    const params = resourcePath.slice(queryIndex + 1).split('&').filter(param => param && param !== REPLAY_MODE_PARAM && !param.startsWith(`${REPLAY_MODE_PARAM}=`));
+    return resourcePath.slice(0, queryIndex) + (params.length > 0 ? `?${params.join('&')}` : '');
+  }
 }
@@ -1,20 +1,42 @@
 import { Router, Request, Response } from 'express';
+import multer from 'multer';
 import { ArchiveController } from '../controllers/ArchiveController.ts';
 
 const router = Router();
 const archiveController = new ArchiveController();
 
+// WARC uploads are parsed in memory, so keep them to a sane size
+const warcUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 512 * 1024 * 1024 },
+});
+
 // Archive routes
 router.post('/url', archiveController.archiveUrl);
 router.get('/status/:id', archiveController.getArchiveStatus);
 router.get('/list', archiveController.listArchives);
+router.get('/queue', archiveController.getQueue);
 
 // Versioning routes
 router.post('/rearchive', archiveController.reArchiveUrl);
 router.get('/versions', archiveController.getArchiveVersions);
 
+// Job control: pause or cancel a running crawl, resume a paused or interrupted one
+router.post('/:id/pause', archiveController.pauseArchive);
+router.post('/:id/cancel', archiveController.cancelArchive);
+router.post('/:id/resume', archiveController.resumeArchive);
+
+// WARC import/export routes
+router.post('/import', warcUpload.single('file'), archiveController.importWarc);
+router.get('/:id/export.warc.gz', archiveController.exportWarc);
+
+// Pages and assets that still failed after their retries
+router.get('/:id/failures', archiveController.getFailures);
+
 // Viewer routes - specific routes must come BEFORE the catch-all
 router.get('/view/:id/pages', archiveController.getArchivePages);
+router.get('/view/:id/__renditions/screenshot', archiveController.getPageScreenshot);
+router.get('/view/:id/__renditions/pdf', archiveController.getPagePdf);
 router.get('/view/:id', archiveController.viewArchive);
 
 // Handle all other requests with middleware that checks the path
@@ -1,14 +1,31 @@
-import { CrawlerService } from './archive/CrawlerService.ts';
+import { CrawlerService, PageData, PageDiscoverySource } from './archive/CrawlerService.ts';
 import { AssetExtractor } from './archive/AssetExtractor.ts';
 import { AssetDownloader } from './archive/AssetDownloader.ts';
 import { UrlRewriter } from './archive/UrlRewriter.ts';
+import { CaptureStore, CaptureRecord, CapturedResponse, RedirectHop } from './archive/CaptureStore.ts';
+import { WarcWriter } from './archive/WarcWriter.ts';
+import { WarcReader } from './archive/WarcReader.ts';
+import { CrawlOptions, DEFAULT_CRAWL_OPTIONS, validateCrawlOptions } from './archive/CrawlOptions.ts';
+import { UrlNormalizer } from './archive/UrlNormalizer.ts';
+import { HostScheduler } from './archive/HostScheduler.ts';
+import { CheckpointStore, LoadedCheckpoint } from './archive/CheckpointStore.ts';
+import { JobControl } from './archive/JobControl.ts';
+import { JobQueue, JobQueueLimits, JobQueueSnapshot } from './archive/JobQueue.ts';
+import { RetryPolicy, RetriesExhaustedError, describeFailure } from './archive/RetryPolicy.ts';
+import { DEFAULT_DOCUMENT_OPTIONS } from './archive/LinkedDocuments.ts';
+import { FailureLog, FailureRecord } from './archive/FailureLog.ts';
+import { getStaticPagePath } from './archive/ShadowDomSerializer.ts';
+import { CaptureProfile, validateCaptureProfile, describeCaptureProfile } from './archive/CaptureProfiles.ts';
+import { AuthService, CookieJar, CrawlAuth, CrawlAuthSummary, validateCrawlAuth } from './archive/AuthService.ts';
+import * as cheerio from 'cheerio';
 import fs from 'fs/promises';
 import path from 'path';
 
 interface ArchiveMetadata {
   id: string;
   url: string;
-  status: 'processing' | 'completed' | 'failed';
+  // interrupted: stopped by a restart and not resumed; cancelled: stopped on request, with or without its partial capture
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'interrupted' | 'paused' | 'cancelled';
   createdAt: string;
   completedAt?: string;
   error?: string;
@@ -17,6 +34,28 @@ interface ArchiveMetadata {
   totalSize?: number;
   version?: number;
   originalUrl?: string; // For tracking the base URL across versions
+  source?: 'crawl' | 'warc-import';
+  importedFrom?: string; // Original filename of an imported WARC/WACZ
+  crawlOptions?: CrawlOptions;
+  auth?: CrawlAuthSummary; // How the crawl logged in; credentials are never stored
+  priority?: number; // Position in the job queue relative to other jobs; higher starts first
+  profile?: CaptureProfile; // Device and locale the pages were rendered as; absent for imports and older captures
+  budgetExhausted?: 'time' | 'bytes';
+  skippedUrls?: Array<{ url: string; reason: string }>;
+  pages?: ArchivedPage[];
+}
+
+interface ArchivedPage {
+  url: string;
+  path: string;
+  title: string;
+  discoveredVia?: PageDiscoverySource;
+  urlVariants?: string[];
+  screenshot?: string; // Full-page PNG, relative to the archive directory
+  pdf?: string;
+  staticSnapshot?: string; // Frozen DOM served in the viewer's static mode, relative to the archive directory
+  redirects?: RedirectHop[]; // Replayed by the viewer for the paths of the URLs that redirected here
+  frames?: Array<{ url: string; path: string }>; // Iframe documents saved for this page
 }
 
 export class ArchiveService {
@@ -24,80 +63,268 @@ export class ArchiveService {
   private extractor = new AssetExtractor();
   private downloader = new AssetDownloader();
   private rewriter = new UrlRewriter();
+  private captureStore = new CaptureStore();
+  private warcReader = new WarcReader();
+  private checkpoints = new CheckpointStore();
+  private failureLog = new FailureLog();
+  private authService = new AuthService();
+  private jobAuth = new Map<string, CrawlAuth>(); // Held in memory only, until the job finishes
+  private jobControls = new Map<string, JobControl>(); // Queued and running crawl jobs
+  private jobQueue = new JobQueue();
   private archives = new Map<string, ArchiveMetadata>();
   private archivesFile = path.join(process.cwd(), 'data', 'archives.json');
-  private initialized = false;
+  private initializing?: Promise<void>;
+  private defaultCrawlOptions: CrawlOptions = { ...DEFAULT_CRAWL_OPTIONS };
 
-  async createArchive(url: string, isReArchive: boolean = false): Promise<{ id: string; status: string; message: string }> {
+  /**
+   * Validate crawl options from a request. Re-archives start from the options the previous
+   * version used, so only the fields being changed need to be sent again.
+   */
+  async resolveCrawlOptions(url: string, input: unknown, isReArchive: boolean = false): Promise<{ options?: CrawlOptions; errors: string[] }> {
+    await this.ensureInitialized();
+    const previous = isReArchive ? this.getArchiveVersions(url).find(archive => archive.crawlOptions) : undefined;
+    return validateCrawlOptions(input, previous?.crawlOptions || this.defaultCrawlOptions);
+  }
+
+  /**
+   * Validate the auth field of a request. A re-archive without one reuses the previous
+   * version's scripted login; storage-state blobs are never kept, so they must be resent.
+   */
+  async resolveCrawlAuth(url: string, input: unknown, isReArchive: boolean = false): Promise<{ auth?: CrawlAuth; errors: string[] }> {
+    await this.ensureInitialized();
+    if (input === undefined || input === null) {
+      const previous = isReArchive ? this.getArchiveVersions(url).find(archive => archive.auth) : undefined;
+      return { auth: previous?.auth?.login ? { login: previous.auth.login } : undefined, errors: [] };
+    }
+
+    const { auth, errors } = validateCrawlAuth(input);
+    if (auth && 'login' in auth && !(await this.authService.hasLogin(auth.login))) {
+      return { errors: [`Login "${auth.login}" is not defined in the secrets file`] };
+    }
+    return { auth, errors };
+  }
+
+  /**
+   * Validate the profile field of a request. A re-archive without one is captured as the
+   * previous version was, so its versions can be compared side by side.
+   */
+  async resolveCaptureProfile(url: string, input: unknown, isReArchive: boolean = false): Promise<{ profile?: CaptureProfile; errors: string[] }> {
+    await this.ensureInitialized();
+    const previous = isReArchive ? this.getArchiveVersions(url).find(archive => archive.profile) : undefined;
+    return validateCaptureProfile(input, previous?.profile);
+  }
+
+  async createArchive(url: string, isReArchive: boolean = false, crawlOptions?: CrawlOptions, auth?: CrawlAuth, priority: number = 0, profile?: CaptureProfile): Promise<{ id: string; status: string; message: string }> {
     console.log('got to create archive')
     await this.ensureInitialized();
     
     const archiveId = this.generateId();
     
     // Determine version number
-    let version = 1;
-    if (isReArchive) {
-      const existingVersions = this.getArchiveVersions(url);
-      version = existingVersions.length > 0 ? Math.max(...existingVersions.map(a => a.version || 1)) + 1 : 1;
-    }
+    const version = isReArchive ? this.getNextVersion(url) : 1;
     
     const metadata: ArchiveMetadata = {
       id: archiveId,
       url,
-      status: 'processing',
+      status: 'queued',
       createdAt: new Date().toISOString(),
       version,
       originalUrl: url,
+      source: 'crawl',
+      priority,
+      crawlOptions: crawlOptions || (await this.resolveCrawlOptions(url, undefined, isReArchive)).options,
+      profile: profile || (await this.resolveCaptureProfile(url, undefined, isReArchive)).profile,
+      skippedUrls: [],
+      auth: auth && this.authService.summarize(auth),
     };
     
     this.archives.set(archiveId, metadata);
+    if (auth) {
+      this.jobAuth.set(archiveId, auth);
+    }
     await this.saveArchives();
     
-    // Start archiving process asynchronously
-    this.processArchive(archiveId, url).catch(error => {
-      console.error(`Archive ${archiveId} failed:`, error);
-      const archive = this.archives.get(archiveId);
-      if (archive) {
-        archive.status = 'failed';
-        archive.error = error.message;
-        this.saveArchives();
-      }
-    });
+    // Start archiving process asynchronously, once the queue has room for it
+    this.startProcessing(archiveId, url);
 
     console.log("got after processArchive")
     
     return {
       id: archiveId,
-      status: 'started',
+      status: this.jobQueue.isQueued(archiveId) ? 'queued' : 'started',
       message: 'Archive process initiated'
     };
   }
 
-  private async processArchive(archiveId: string, url: string): Promise<void> {
+  /**
+   * Queue processArchive to run in the background, optionally continuing from a checkpoint.
+   * The archive stays queued until the job queue starts it.
+   */
+  private startProcessing(archiveId: string, url: string, resume?: LoadedCheckpoint, control: JobControl = new JobControl()): void {
+    this.jobControls.set(archiveId, control);
+    this.jobQueue.enqueue({
+      id: archiveId,
+      url,
+      priority: this.archives.get(archiveId)?.priority ?? 0,
+      run: async () => {
+        const archive = this.archives.get(archiveId);
+        if (archive) {
+          archive.status = 'processing';
+          await this.saveArchives();
+        }
+        await this.processArchive(archiveId, url, resume, control).finally(() => {
+          this.jobAuth.delete(archiveId);
+          this.jobControls.delete(archiveId);
+        }).catch(error => {
+          console.error(`Archive ${archiveId} failed:`, error);
+          const archive = this.archives.get(archiveId);
+          if (archive) {
+            archive.status = 'failed';
+            archive.error = error.message;
+            this.saveArchives();
+          }
+        });
+      },
+    });
+  }
+
+  /**
+   * Take a job out of the queue before it has started
+   */
+  private dequeueJob(archiveId: string): boolean {
+    if (!this.jobQueue.remove(archiveId)) {
+      return false;
+    }
+    this.jobAuth.delete(archiveId);
+    this.jobControls.delete(archiveId);
+    return true;
+  }
+
+  getQueue(): JobQueueSnapshot {
+    return this.jobQueue.getSnapshot();
+  }
+
+  private async processArchive(archiveId: string, url: string, resume?: LoadedCheckpoint, control: JobControl = new JobControl()): Promise<void> {
     console.log("got into process archive")
     const overallStartTime = Date.now();
     
     try {
-      console.log(`\n🚀 [${new Date().toISOString()}] Starting archive process for: ${url}`);
+      console.log(`\n🚀 [${new Date().toISOString()}] ${resume ? `Resuming archive process at stage "${resume.checkpoint.stage}"` : 'Starting archive process'} for: ${url}`);
       console.log(`📋 Archive ID: ${archiveId}`);
       
       // Step 1: Crawl website once to get ALL page data (URLs + HTML + links)
       const crawlStartTime = Date.now();
       console.log(`\n🔍 Step 1: Crawling website (single pass)...`);
-      const pagesData = await this.crawler.crawlWebsite(url);
+      const archive = this.archives.get(archiveId);
+      const crawlOptions = archive?.crawlOptions || this.defaultCrawlOptions;
+      // Time earlier runs of a resumed job used counts against its budget
+      const previousElapsedMs = resume?.checkpoint.elapsedMs ?? resume?.checkpoint.frontier?.elapsedMs ?? 0;
+      const elapsedMs = () => previousElapsedMs + Date.now() - overallStartTime;
+      const deadline = crawlOptions.timeBudgetSeconds ? overallStartTime + crawlOptions.timeBudgetSeconds * 1000 - previousElapsedMs : undefined;
+      const auth = this.jobAuth.get(archiveId);
+      // A job that is already stopping (cancelled while paused) fetches nothing, so needs no session
+      const storageState = auth && !control.shouldStop() ? await this.authService.getStorageState(auth) : undefined;
+      const cookies = new CookieJar(storageState?.cookies);
+      // Page loads and asset fetches share one set of per-host limits
+      const scheduler = new HostScheduler(crawlOptions.rateLimit);
+      const retryPolicy = new RetryPolicy(crawlOptions.retries);
+      // Every subresource the browser loads is recorded as it arrives, keyed by URL
+      const capturedAssets = new Map<string, CaptureRecord>();
+      if (resume) {
+        for (const record of await this.captureStore.listRecords(archiveId)) {
+          if (record.kind === 'asset') capturedAssets.set(record.url, record);
+        }
+      }
+      
+      let pagesData: PageData[];
+      let crawlBytes = resume?.checkpoint.frontier?.bytesFetched ?? 0;
+      if (!resume || (resume.checkpoint.stage === 'crawling' && !control.shouldStop())) {
+        await this.checkpoints.setStage(archiveId, 'crawling', resume?.checkpoint.frontier, elapsedMs());
+        if (archive?.profile) {
+          console.log(`📱 Capturing as ${describeCaptureProfile(archive.profile)}`);
+        }
+        pagesData = await this.crawler.crawlWebsite(url, {
+          ...crawlOptions,
+          profile: archive?.profile,
+          storageState,
+          scheduler,
+          renditionsDir: path.join(process.cwd(), 'archives', archiveId),
+          resumeFrom: resume?.checkpoint.frontier && { frontier: resume.checkpoint.frontier, pages: resume.pages },
+          onResponse: async (captured, pageUrl) => {
+            const record = await this.captureStore.saveResponse(archiveId, 'asset', captured, { foundOn: pageUrl });
+            capturedAssets.set(captured.url, record);
+          },
+          onPageCrawled: async (crawled, frontier) => {
+            // Keep the original document response for export before anything gets rewritten
+            const { page } = crawled;
+            if (page.response) {
+              await this.captureStore.saveResponse(archiveId, 'page', page.response, { outlinks: page.links, behaviors: page.behaviors });
+              delete page.response;
+            }
+            crawlBytes = frontier.bytesFetched;
+            await this.checkpoints.savePage(archiveId, crawled, frontier);
+          },
+          onSkip: (skippedUrl, reason) => archive?.skippedUrls?.push({ url: skippedUrl, reason }),
+          onBudgetExhausted: budget => {
+            if (archive) archive.budgetExhausted = budget;
+          },
+          shouldStop: control.shouldStop,
+          retryPolicy,
+          onPageFailed: (pageUrl, failure, attempts) => this.failureLog.record(archiveId, 'page', pageUrl, failure, attempts),
+          // Linked PDFs, downloads and media are captured now and saved with the assets; only
+          // fetched again when the browser's navigation didn't get their body
+          onDocument: async (documentUrl, response) => {
+            try {
+              const documents = { ...DEFAULT_DOCUMENT_OPTIONS, ...crawlOptions.documents };
+              const result = response
+                ? await this.downloader.keepDocument(response, archiveId, documents)
+                : await retryPolicy.run(documentUrl, () => this.downloader.captureDocument(documentUrl, archiveId, documents, cookies, scheduler));
+              if ('skipped' in result) {
+                archive?.skippedUrls?.push({ url: documentUrl, reason: result.skipped });
+                return 0;
+              }
+              capturedAssets.set(result.url, result);
+              return response ? 0 : result.size;
+            } catch (error) {
+              await this.failureLog.record(archiveId, 'asset', documentUrl, describeFailure(error), error instanceof RetriesExhaustedError ? error.attempts : 1);
+            }
+          },
+        });
+        // A paused crawl continues from the frontier saved with its last page
+        if (await this.endStoppedJob(archiveId, control)) return;
+        await this.checkpoints.finishCrawl(archiveId, pagesData.map((page, sequence) => ({ sequence, page })), elapsedMs());
+      } else {
+        pagesData = resume.pages.sort((a, b) => a.sequence - b.sequence).map(({ page }) => page);
+      }
       console.log("got passed crawling website")
       const crawlDuration = Date.now() - crawlStartTime;
       console.log(`✅ Crawled ${pagesData.length} pages in ${crawlDuration}ms`);
       
       // Log page details
       pagesData.forEach((page, i) => {
-        console.log(`   📄 Page ${i + 1}: ${page.url} (${page.html.length} chars, ${page.links.length} links)`);
+        console.log(`   📄 Page ${i + 1}: ${page.url} (${page.html.length} chars, ${page.links.length} links, via ${page.discoveredVia})`);
       });
       
       // Step 2: Extract all assets from the crawled pages
       const extractStartTime = Date.now();
       console.log(`\n🔧 Step 2: Extracting assets from ${pagesData.length} pages...`);
-      const assets = await this.extractor.extractAssetsFromPages(pagesData);
+      const assets = Array.from(capturedAssets.values()).map(record =>
+        this.extractor.createAssetFromResponse(record.url, record.responseHeaders['content-type'] || '', record.foundOn || url)
+      );
+      // Static extraction still catches anything the browser didn't request (lazy images, unused stylesheets).
+      // It fetches scripts and stylesheets, so a job being stopped keeps to what it captured.
+      // Iframe documents reference assets of their own, resolved against the frame's URL
+      const htmlDocuments = pagesData.flatMap(page => [page, ...(page.frames || [])]);
+      const extractedAssets = control.shouldStop() ? [] : await this.extractor.extractAssetsFromPages(htmlDocuments, async assetUrl => {
+        const record = capturedAssets.get(assetUrl);
+        return record ? (await this.captureStore.readBody(archiveId, record)).toString('utf8') : null;
+      }, cookies, scheduler);
+      const capturedUrls = new Set(assets.map(asset => asset.url));
+      for (const record of capturedAssets.values()) {
+        (record.redirects || []).forEach(hop => capturedUrls.add(hop.url));
+      }
+      assets.push(...extractedAssets.filter(asset => !capturedUrls.has(asset.url)));
+      console.log(`   🌐 ${capturedAssets.size} assets captured from network traffic, ${assets.length - capturedAssets.size} from static extraction`);
       const extractDuration = Date.now() - extractStartTime;
       console.log(`✅ Found ${assets.length} assets in ${extractDuration}ms`);
       
@@ -112,7 +339,20 @@ export class ArchiveService {
       // Step 3: Download all assets
       const downloadStartTime = Date.now();
       console.log(`\n⬇️ Step 3: Downloading ${assets.length} assets...`);
-      const urlMappings = await this.downloader.downloadAssets(assets, archiveId);
+      await this.checkpoints.setStage(archiveId, 'downloading', undefined, elapsedMs());
+      const urlMappings = await this.downloader.downloadAssets(assets, archiveId, {
+        deadline,
+        maxBytes: crawlOptions.byteBudget !== undefined ? Math.max(0, crawlOptions.byteBudget - crawlBytes) : undefined,
+        capturedAssets,
+        completed: resume?.downloadedAssets,
+        onAssetSaved: (assetUrl, relativePath) => this.checkpoints.saveAsset(archiveId, assetUrl, relativePath),
+        cookies,
+        scheduler,
+        shouldStop: control.shouldStop,
+        retryPolicy,
+        onAssetFailed: (asset, failure, attempts) => this.failureLog.record(archiveId, 'asset', asset.url, failure, attempts, asset.foundOn),
+      });
+      if (await this.endStoppedJob(archiveId, control)) return;
       const downloadDuration = Date.now() - downloadStartTime;
       console.log(`✅ Downloaded assets in ${downloadDuration}ms`);
       console.log(`   📁 Created ${urlMappings.size} URL mappings`);
@@ -120,20 +360,34 @@ export class ArchiveService {
       // Step 4: Rewrite URLs in HTML and CSS files
       const rewriteStartTime = Date.now();
       console.log(`\n✏️ Step 4: Rewriting URLs in ${pagesData.length} pages...`);
-      await this.rewriter.rewriteUrls(pagesData, urlMappings, archiveId);
+      await this.checkpoints.setStage(archiveId, 'rewriting', undefined, elapsedMs());
+      await this.rewriter.rewriteUrls(pagesData, urlMappings, archiveId, new UrlNormalizer(crawlOptions.urlNormalization), control.shouldAbort);
+      if (await this.endStoppedJob(archiveId, control)) return;
       const rewriteDuration = Date.now() - rewriteStartTime;
       console.log(`✅ URL rewriting completed in ${rewriteDuration}ms`);
       
       // Step 5: Save metadata and mark as completed
       console.log(`\n💾 Step 5: Saving archive metadata...`);
-      const archive = this.archives.get(archiveId);
       if (archive) {
-        archive.status = 'completed';
+        archive.status = control.stopRequest?.action === 'cancel' ? 'cancelled' : 'completed';
         archive.completedAt = new Date().toISOString();
         archive.pageCount = pagesData.length;
         archive.assetCount = assets.length;
+        archive.pages = pagesData.map(page => ({
+          url: page.url,
+          path: page.path,
+          title: page.title,
+          discoveredVia: page.discoveredVia,
+          urlVariants: page.urlVariants,
+          screenshot: page.screenshot,
+          pdf: page.pdf,
+          staticSnapshot: page.staticHtml ? getStaticPagePath(page.path) : undefined,
+          redirects: page.redirects,
+          frames: page.frames?.map(frame => ({ url: frame.url, path: frame.path })),
+        }));
         await this.saveArchives();
       }
+      await this.checkpoints.remove(archiveId);
       
       const totalDuration = Date.now() - overallStartTime;
       console.log(`\n🎉 Archive ${archiveId} completed successfully!`);
@@ -155,6 +409,8 @@ export class ArchiveService {
         archive.error = error instanceof Error ? error.message : 'Unknown error';
         await this.saveArchives();
       }
+      // A failed job is not resumable, so its checkpoint is of no further use
+      await this.checkpoints.remove(archiveId).catch(() => {});
       
       throw error;
     }
@@ -184,6 +440,23 @@ export class ArchiveService {
     return versions;
   }
 
+  private getNextVersion(url: string): number {
+    const existingVersions = this.getArchiveVersions(url);
+    return existingVersions.length > 0 ? Math.max(...existingVersions.map(a => a.version || 1)) + 1 : 1;
+  }
+
+  /**
+   * Pages and assets that could not be archived, with their HTTP status or error class.
+   * Returns null when the archive doesn't exist.
+   */
+  async getFailures(id: string): Promise<FailureRecord[] | null> {
+    await this.ensureInitialized();
+    if (!this.archives.has(id)) {
+      return null;
+    }
+    return this.failureLog.list(id);
+  }
+
   async getArchiveVersionsForUrl(url: string): Promise<{ versions: ArchiveMetadata[]; total: number }> {
     await this.ensureInitialized();
     const versions = this.getArchiveVersions(url);
@@ -193,8 +466,205 @@ export class ArchiveService {
     };
   }
 
-  async reArchiveUrl(url: string): Promise<{ id: string; status: string; message: string; version: number }> {
-    const result = await this.createArchive(url, true);
+  /**
+   * Stream an archive as a gzipped WARC/1.1 file built from the original captured responses
+   */
+  async exportWarc(archiveId: string, output: NodeJS.WritableStream): Promise<boolean> {
+    await this.ensureInitialized();
+    const archive = this.archives.get(archiveId);
+    if (!archive) {
+      return false;
+    }
+
+    const records = await this.captureStore.listRecords(archiveId);
+    console.log(`📦 Exporting archive ${archiveId} as WARC (${records.length} captured responses)`);
+
+    const writer = new WarcWriter(output);
+    await writer.writeWarcinfo(`${archiveId}.warc.gz`, {
+      software: 'Wayback-Machine archiver',
+      format: 'WARC File Format 1.1',
+      conformsTo: 'https://iipc.github.io/warc-specifications/specifications/warc-format/warc-1.1/',
+      isPartOf: archiveId,
+      description: `Capture of ${archive.url} (version ${archive.version || 1})`,
+    });
+
+    for (const record of records) {
+      for (const hop of record.redirects || []) {
+        await writer.writeRedirect(hop, record.capturedAt);
+      }
+      const body = await this.captureStore.readBody(archiveId, record);
+      const responseId = await writer.writeResponse(record, body);
+      await writer.writeRequest(record, responseId);
+      await writer.writeMetadata(record, responseId);
+    }
+
+    return true;
+  }
+
+  /**
+   * Create a new archive from a WARC/WACZ file produced by another tool. Returns null when
+   * the upload can't be parsed or contains nothing we can replay.
+   */
+  async importWarc(data: Buffer, filename: string): Promise<{ id: string; status: string; message: string; version: number } | null> {
+    await this.ensureInitialized();
+
+    let responses: CapturedResponse[];
+    let mainUrl: string | undefined;
+    try {
+      ({ responses, mainUrl } = this.readWarcResponses(data, filename));
+    } catch (error) {
+      console.warn(`⚠️ Could not parse uploaded WARC ${filename}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+
+    if (!mainUrl || responses.length === 0) {
+      console.warn(`⚠️ Uploaded WARC ${filename} contains no replayable HTML responses`);
+      return null;
+    }
+
+    const archiveId = this.generateId();
+    const version = this.getNextVersion(mainUrl);
+    const metadata: ArchiveMetadata = {
+      id: archiveId,
+      url: mainUrl,
+      status: 'processing',
+      createdAt: new Date().toISOString(),
+      version,
+      originalUrl: mainUrl,
+      source: 'warc-import',
+      importedFrom: filename,
+    };
+
+    this.archives.set(archiveId, metadata);
+    await this.saveArchives();
+    console.log(`📥 Importing ${responses.length} responses from ${filename} as archive ${archiveId} (version ${version})`);
+
+    this.processImport(archiveId, mainUrl, responses).catch(async error => {
+      console.error(`Import ${archiveId} failed:`, error);
+      const archive = this.archives.get(archiveId);
+      if (archive) {
+        archive.status = 'failed';
+        archive.error = error.message;
+        await this.saveArchives();
+      }
+    });
+
+    return {
+      id: archiveId,
+      status: 'started',
+      message: 'Import process initiated',
+      version,
+    };
+  }
+
+  /**
+   * Turn WARC records into captured responses, pairing each response with its request
+   */
+  private readWarcResponses(data: Buffer, filename: string): { responses: CapturedResponse[]; mainUrl?: string } {
+    const { records, mainPageUrl } = this.warcReader.readFile(data, filename);
+
+    const requestsByResponseId = new Map<string, { method: string; headers: Record<string, string> }>();
+    for (const record of records) {
+      const concurrentTo = record.headers['warc-concurrent-to'];
+      if (record.type === 'request' && concurrentTo) {
+        const request = this.warcReader.parseHttpRequest(record.block);
+        if (request) requestsByResponseId.set(concurrentTo, request);
+      }
+    }
+
+    const responses = new Map<string, CapturedResponse>();
+    for (const record of records) {
+      const url = record.targetUri;
+      if (!url || !/^https?:/i.test(url) || responses.has(url)) continue;
+
+      if (record.type === 'response') {
+        const http = this.warcReader.parseHttpResponse(record.block);
+        if (!http || http.status < 200 || http.status >= 300) continue;
+        const request = requestsByResponseId.get(record.headers['warc-record-id']);
+        responses.set(url, {
+          url,
+          method: request?.method || 'GET',
+          status: http.status,
+          statusText: http.statusText,
+          requestHeaders: request?.headers || {},
+          responseHeaders: http.headers,
+          body: http.body,
+        });
+      } else if (record.type === 'resource') {
+        responses.set(url, {
+          url,
+          method: 'GET',
+          status: 200,
+          statusText: 'OK',
+          requestHeaders: {},
+          responseHeaders: { 'content-type': record.headers['content-type'] || 'application/octet-stream' },
+          body: record.block,
+        });
+      }
+    }
+
+    const isHtml = (response: CapturedResponse) => (response.responseHeaders['content-type'] || '').includes('text/html');
+    const mainUrl = (mainPageUrl && responses.has(mainPageUrl))
+      ? mainPageUrl
+      : Array.from(responses.values()).find(isHtml)?.url;
+
+    return { responses: Array.from(responses.values()), mainUrl };
+  }
+
+  private async processImport(archiveId: string, mainUrl: string, responses: CapturedResponse[]): Promise<void> {
+    const startTime = Date.now();
+    const mainHost = new URL(mainUrl).hostname;
+    const pagesData: PageData[] = [];
+    const urlMappings = new Map<string, string>();
+
+    for (const response of responses) {
+      const contentType = response.responseHeaders['content-type'] || '';
+      const isPage = contentType.includes('text/html') && new URL(response.url).hostname === mainHost;
+
+      if (isPage) {
+        const html = response.body.toString('utf8');
+        const $ = cheerio.load(html);
+        const links = $('a[href]')
+          .map((_, el) => $(el).attr('href'))
+          .get()
+          .map(href => {
+            try {
+              return new URL(href, response.url).href;
+            } catch {
+              return null;
+            }
+          })
+          .filter((link): link is string => !!link);
+
+        pagesData.push({ url: response.url, html, title: $('title').first().text(), links, path: this.crawler.generatePagePath(response.url) });
+        await this.captureStore.saveResponse(archiveId, 'page', response, { outlinks: links });
+      } else {
+        const relativePath = await this.downloader.saveAsset(response.url, response.body, archiveId);
+        urlMappings.set(response.url, relativePath);
+        await this.captureStore.saveResponse(archiveId, 'asset', response);
+      }
+    }
+
+    // Main page first so it lands on index.html-style lookups the same way a crawl would
+    pagesData.sort((a, b) => (a.url === mainUrl ? -1 : b.url === mainUrl ? 1 : 0));
+
+    console.log(`✏️ Rewriting URLs in ${pagesData.length} imported pages...`);
+    await this.rewriter.rewriteUrls(pagesData, urlMappings, archiveId);
+
+    const archive = this.archives.get(archiveId);
+    if (archive) {
+      archive.status = 'completed';
+      archive.completedAt = new Date().toISOString();
+      archive.pageCount = pagesData.length;
+      archive.assetCount = urlMappings.size;
+      await this.saveArchives();
+    }
+
+    console.log(`🎉 Import ${archiveId} completed in ${Date.now() - startTime}ms (${pagesData.length} pages, ${urlMappings.size} assets)`);
+  }
+
+  async reArchiveUrl(url: string, crawlOptions?: CrawlOptions, auth?: CrawlAuth, priority: number = 0, profile?: CaptureProfile): Promise<{ id: string; status: string; message: string; version: number }> {
+    const result = await this.createArchive(url, true, crawlOptions, auth, priority, profile);
     const archive = this.archives.get(result.id);
     return {
       ...result,
@@ -202,11 +672,258 @@ export class ArchiveService {
     };
   }
 
+  /**
+   * Why a pause, cancel or resume can't be applied to an archive: a conflict with its
+   * state, or auth the request must supply
+   */
+  getJobActionProblem(archive: ArchiveMetadata, action: 'pause' | 'cancel' | 'resume', auth?: CrawlAuth): { conflict: boolean; message: string } | null {
+    const control = this.jobControls.get(archive.id);
+    if (archive.status === 'queued' && action !== 'resume') {
+      return null; // Not started yet, so it can simply be taken out of the queue
+    }
+    if (action === 'pause' || (action === 'cancel' && archive.status === 'processing')) {
+      if (archive.status !== 'processing' || !control) {
+        return { conflict: true, message: `Archive is ${archive.status === 'processing' ? 'an import' : archive.status}; only running crawls can be ${action === 'pause' ? 'paused' : 'cancelled'}` };
+      }
+      // A cancel may still override a pause in progress
+      if (control.stopRequest && (action === 'pause' || control.stopRequest.action === 'cancel')) {
+        return { conflict: true, message: `Archive is already being ${control.stopRequest.action === 'pause' ? 'paused' : 'cancelled'}` };
+      }
+      return null;
+    }
+    if (action === 'cancel') {
+      return archive.status === 'paused' || archive.status === 'interrupted'
+        ? null
+        : { conflict: true, message: `Archive is ${archive.status}; only queued, running, paused or interrupted archives can be cancelled` };
+    }
+
+    if (archive.status !== 'interrupted' && archive.status !== 'paused') {
+      return { conflict: true, message: `Archive is ${archive.status}; only paused or interrupted archives can be resumed` };
+    }
+    if (archive.source === 'warc-import') {
+      return { conflict: true, message: 'Imported archives cannot be resumed; import the file again' };
+    }
+    if (archive.auth?.method === 'storageState' && !auth) {
+      return { conflict: false, message: 'This crawl used a storage state, which is never stored; send it again as auth.storageState' };
+    }
+    return null;
+  }
+
+  /**
+   * Ask a running crawl to stop at the next page or asset. Its status becomes paused once
+   * it has, and resumeArchive continues it from the checkpoint. A queued job is paused
+   * straight away by taking it out of the queue.
+   */
+  async pauseArchive(archiveId: string): Promise<{ id: string; status: string; message: string } | null> {
+    await this.ensureInitialized();
+    const archive = this.archives.get(archiveId);
+    const control = this.jobControls.get(archiveId);
+    if (!archive || !control || this.getJobActionProblem(archive, 'pause')) {
+      return null;
+    }
+
+    if (this.dequeueJob(archiveId)) {
+      archive.status = 'paused';
+      await this.saveArchives();
+      console.log(`⏸️ Archive ${archiveId} taken out of the queue and paused`);
+      return { id: archiveId, status: 'paused', message: 'Archive was still queued and is now paused' };
+    }
+
+    control.pause();
+    console.log(`⏸️ Pause requested for archive ${archiveId}`);
+    return { id: archiveId, status: 'pausing', message: 'Archive will pause after the pages and assets in progress' };
+  }
+
+  /**
+   * Cancel a queued, running, paused or interrupted crawl. With keepPartial, whatever was
+   * crawled so far is rewritten into a viewable archive; otherwise its files are deleted.
+   */
+  async cancelArchive(archiveId: string, keepPartial: boolean): Promise<{ id: string; status: string; message: string } | null> {
+    await this.ensureInitialized();
+    const archive = this.archives.get(archiveId);
+    if (!archive || this.getJobActionProblem(archive, 'cancel')) {
+      return null;
+    }
+
+    this.dequeueJob(archiveId);
+    const running = this.jobControls.get(archiveId);
+    if (running) {
+      running.cancel(keepPartial);
+      console.log(`🛑 Cancel requested for archive ${archiveId} (${keepPartial ? 'keeping' : 'deleting'} the partial capture)`);
+      return { id: archiveId, status: 'cancelling', message: 'Archive will stop after the pages and assets in progress' };
+    }
+
+    // A stopped job has to be run once more to rewrite what it captured
+    const checkpoint = keepPartial && archive.source !== 'warc-import' ? await this.checkpoints.load(archiveId) : null;
+    if (checkpoint && checkpoint.pages.length > 0) {
+      const control = new JobControl();
+      control.cancel(true);
+      archive.status = 'queued';
+      await this.saveArchives();
+      console.log(`🛑 Cancelling archive ${archiveId}, keeping its ${checkpoint.pages.length} crawled pages`);
+      this.startProcessing(archiveId, archive.url, checkpoint, control);
+      return { id: archiveId, status: 'cancelling', message: 'Archive is being finished with the pages crawled so far' };
+    }
+
+    await this.discardCapture(archiveId);
+    return { id: archiveId, status: 'cancelled', message: keepPartial ? 'Archive had no crawled pages to keep' : 'Archive cancelled and its files deleted' };
+  }
+
+  /**
+   * Continue a paused or interrupted crawl from its checkpoint, or from the start if it had none.
+   * Returns null when the archive doesn't exist or can't be resumed.
+   */
+  async resumeArchive(archiveId: string, auth?: CrawlAuth): Promise<{ id: string; status: string; message: string } | null> {
+    await this.ensureInitialized();
+    const archive = this.archives.get(archiveId);
+    if (!archive || this.getJobActionProblem(archive, 'resume', auth)) {
+      return null;
+    }
+
+    const resumeAuth = auth || (archive.auth?.login ? { login: archive.auth.login } : undefined);
+    const checkpoint = await this.checkpoints.load(archiveId);
+    archive.status = 'queued';
+    delete archive.error;
+    if (resumeAuth) {
+      this.jobAuth.set(archiveId, resumeAuth);
+      archive.auth = this.authService.summarize(resumeAuth);
+    }
+    await this.saveArchives();
+
+    console.log(`▶️ Resuming archive ${archiveId} ${checkpoint ? `from stage "${checkpoint.checkpoint.stage}"` : 'from the start (no checkpoint)'}`);
+    this.startProcessing(archiveId, archive.url, checkpoint || undefined);
+    return {
+      id: archiveId,
+      status: 'resumed',
+      message: checkpoint ? `Archive resumed from stage "${checkpoint.checkpoint.stage}"` : 'Archive restarted from the beginning',
+    };
+  }
+
+  /**
+   * Whether an archive has files that can be viewed and exported: a completed one, or a
+   * cancelled one that kept its partial capture
+   */
+  isViewable(archive: ArchiveMetadata): boolean {
+    return archive.status === 'completed' || (archive.status === 'cancelled' && !!archive.pages?.length);
+  }
+
+  /**
+   * Where the page a viewer path points at is stored. A query string is part of the file
+   * name (see CrawlerService.generatePagePath), so products?page=2 is read from products-<hash>.html.
+   */
+  resolvePagePath(pagePath: string): string {
+    if (!pagePath.includes('?')) {
+      return pagePath;
+    }
+    return this.crawler.generatePagePath(new URL(pagePath, 'http://archive.invalid/').href);
+  }
+
+  /**
+   * The redirect to replay when pagePath is where a URL that redirected during the crawl
+   * would have been stored. Location is the path of the hop's target, so a chain is replayed
+   * one hop at a time just as the live site sent it; as a temporary redirect where the crawl
+   * didn't see its status.
+   */
+  getPageRedirect(archive: ArchiveMetadata, pagePath: string): { status: number; location: string } | null {
+    for (const hop of (archive.pages || []).flatMap(page => page.redirects || [])) {
+      const location = this.crawler.generatePagePath(new URL(hop.location, hop.url).href);
+      // Scheme and host changes (http -> https, example.com -> www.) land on the same path
+      if (this.crawler.generatePagePath(hop.url) === pagePath && location !== pagePath) {
+        return { status: hop.status ?? 302, location };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * If the job was asked to pause, or to cancel without keeping anything, wrap it up and
+   * report that processing should end here
+   */
+  private async endStoppedJob(archiveId: string, control: JobControl): Promise<boolean> {
+    const request = control.stopRequest;
+    if (!request || !control.shouldAbort()) {
+      return false;
+    }
+
+    if (request.action === 'pause') {
+      const archive = this.archives.get(archiveId);
+      if (archive) {
+        archive.status = 'paused';
+        await this.saveArchives();
+      }
+      console.log(`⏸️ Archive ${archiveId} paused; resume it to continue from its checkpoint`);
+    } else {
+      await this.discardCapture(archiveId);
+    }
+    return true;
+  }
+
+  /**
+   * Delete everything a cancelled job wrote and mark it cancelled
+   */
+  private async discardCapture(archiveId: string): Promise<void> {
+    await fs.rm(path.join(process.cwd(), 'archives', archiveId), { recursive: true, force: true });
+    await this.captureStore.remove(archiveId);
+    await this.checkpoints.remove(archiveId);
+    await this.failureLog.remove(archiveId);
+
+    const archive = this.archives.get(archiveId);
+    if (archive) {
+      archive.status = 'cancelled';
+      archive.completedAt = new Date().toISOString();
+      delete archive.pages;
+      delete archive.error;
+      await this.saveArchives();
+    }
+    console.log(`🛑 Archive ${archiveId} cancelled and its files deleted`);
+  }
+
+  /**
+   * Load archives on startup rather than on the first request, so interrupted jobs are
+   * picked up straight away
+   */
+  async initialize(): Promise<void> {
+    await this.ensureInitialized();
+  }
+
   private async ensureInitialized(): Promise<void> {
-    if (!this.initialized) {
-      await this.loadArchives();
-      this.initialized = true;
+    if (!this.initializing) {
+      this.initializing = (async () => {
+        await this.loadArchives();
+        await this.recoverInterruptedJobs();
+      })();
+    }
+    await this.initializing;
+  }
+
+  /**
+   * Archives still marked processing or queued were running or waiting when the server
+   * stopped. Queue again the ones we can continue without user input (from their checkpoint,
+   * if they got that far); mark the rest interrupted so they can be resumed through the API.
+   */
+  private async recoverInterruptedJobs(): Promise<void> {
+    for (const archive of this.archives.values()) {
+      if (archive.status !== 'processing' && archive.status !== 'queued') continue;
+
+      const checkpoint = archive.source === 'warc-import' ? null : await this.checkpoints.load(archive.id);
+      if ((checkpoint || archive.status === 'queued') && archive.auth?.method !== 'storageState') {
+        if (archive.auth?.login) {
+          this.jobAuth.set(archive.id, { login: archive.auth.login });
+        }
+        console.log(`♻️ Re-queueing archive ${archive.id} ${checkpoint ? `at stage "${checkpoint.checkpoint.stage}"` : 'from the start'} after restart`);
+        archive.status = 'queued';
+        this.startProcessing(archive.id, archive.url, checkpoint || undefined);
+      } else {
+        archive.status = 'interrupted';
+        archive.error = archive.source === 'warc-import'
+          ? 'Import was interrupted by a server restart'
+          : checkpoint
+            ? 'Crawl was interrupted by a server restart; resume it with its storage state'
+            : 'Crawl was interrupted by a server restart before its first checkpoint';
+        console.log(`⏸️ Archive ${archive.id} was interrupted: ${archive.error}`);
+      }
     }
+    await this.saveArchives();
   }
 
   private async loadArchives(): Promise<void> {
@@ -238,6 +955,15 @@ export class ArchiveService {
   // Configuration methods
   setCrawlerLimits(maxDepth: number, maxPages: number): void {
     this.crawler.setLimits(maxDepth, maxPages);
+    this.defaultCrawlOptions = { ...this.defaultCrawlOptions, maxDepth, maxPages };
+  }
+
+  setCrawlerConcurrency(defaultConcurrency: number, perHost: Record<string, number> = {}): void {
+    this.crawler.setConcurrency(defaultConcurrency, perHost);
+  }
+
+  setJobQueueLimits(limits: Partial<JobQueueLimits>): void {
+    this.jobQueue.setLimits(limits);
   }
 
   // Force reload archives from file (useful for debugging)
@@ -299,12 +1025,7 @@ async function main() {
   process.exit(0);
 }
 
-// Run main function if this file is executed directly
-if (process.argv[1] && import.meta.url === `file://${process.argv[1]}`) {
-  main().catch(console.error);
-}
-
-// Alternative: always run main if this is the entry point
+// Run main function if this file is executed directly (not via import.meta, which jest's CommonJS transform can't compile)
 if (process.argv[1]?.endsWith('ArchiveService.ts')) {
   main().catch(console.error);
 }
\ No newline at end of file
@@ -1,6 +1,18 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { ArchiveService } from './ArchiveService.ts';
+import { getStaticPagePath } from './archive/ShadowDomSerializer.ts';
+import * as cheerio from 'cheerio';
+
+/**
+ * interactive: the archived HTML with its scripts; static: the frozen DOM snapshot, without any
+ */
+export type ReplayMode = 'interactive' | 'static';
+
+export const REPLAY_MODES: ReplayMode[] = ['interactive', 'static'];
+
+// Query parameter that selects the replay mode; prefixed so it can't clash with the archived site's own parameters
+export const REPLAY_MODE_PARAM = '__replay';
 
 export class ViewerService {
   private archiveService: ArchiveService;
@@ -10,13 +22,16 @@ export class ViewerService {
   }
 
   /**
-   * Get the main HTML page for an archived website
+   * Get the main HTML page for an archived website. Where a page redirected during the
+   * crawl, the redirect is returned instead so the browser lands on the final URL. In
+   * static mode the page's frozen snapshot is served, or the page with its scripts
+   * stripped when it has none (imports, older archives), and links stay in static mode.
    */
-  async getArchivedPage(archiveId: string, pagePath?: string): Promise<{ html: string; contentType: string } | null> {
+  async getArchivedPage(archiveId: string, pagePath?: string, mode: ReplayMode = 'interactive'): Promise<{ html: string; contentType: string } | { redirect: string; status: number } | null> {
     try {
-      // Verify archive exists and is completed
+      // Verify archive exists and has viewable files
       const archive = await this.archiveService.getArchiveStatus(archiveId);
-      if (!archive || archive.status !== 'completed') {
+      if (!archive || !this.archiveService.isViewable(archive)) {
         return null;
       }
 
@@ -30,6 +45,12 @@ export class ViewerService {
         
         // If not found, search for any HTML file
         if (!(await this.fileExists(targetFile))) {
+          // The start URL may have redirected, e.g. / -> /en/
+          const redirect = this.archiveService.getPageRedirect(archive, 'index.html');
+          if (redirect) {
+            return { redirect: this.withReplayMode(`/api/archives/view/${archiveId}/${redirect.location}`, mode), status: redirect.status };
+          }
+          
           const htmlFiles = await this.findHtmlFiles(archiveDir);
           if (htmlFiles.length === 0) {
             return null;
@@ -41,12 +62,20 @@ export class ViewerService {
         if (pagePath.startsWith('/')) {
           pagePath = pagePath.substring(1);
         }
+        // Each query variant of a page has its own file
+        pagePath = this.archiveService.resolvePagePath(pagePath);
         targetFile = path.join(archiveDir, pagePath);
       }
 
       // Check if file exists
       if (!(await this.fileExists(targetFile))) {
-        return null;
+        const requestedPath = pagePath && !pagePath.endsWith('/') ? pagePath : `${pagePath || ''}index.html`;
+        const redirect = this.archiveService.getPageRedirect(archive, requestedPath);
+        return redirect ? { redirect: this.withReplayMode(`/api/archives/view/${archiveId}/${redirect.location}`, mode), status: redirect.status } : null;
+      }
+
+      if (mode === 'static') {
+        return { html: await this.getStaticHtml(archiveId, targetFile), contentType: 'text/html' };
       }
 
       const html = await fs.readFile(targetFile, 'utf8');
@@ -99,14 +128,61 @@ export class ViewerService {
     }
   }
 
+  /**
+   * The frozen snapshot saved next to a page, with the base tag every served page gets and
+   * its local links and frames kept in static mode
+   */
+  private async getStaticHtml(archiveId: string, pageFile: string): Promise<string> {
+    const staticFile = getStaticPagePath(pageFile);
+    const hasSnapshot = await this.fileExists(staticFile);
+    const $ = cheerio.load(await fs.readFile(hasSnapshot ? staticFile : pageFile, 'utf8'));
+
+    if (!hasSnapshot) {
+      $('script, noscript, link[rel="modulepreload"], link[rel="preload"][as="script"]').remove();
+      $('*').each((_, el) => {
+        for (const name of Object.keys((el as { attribs?: Record<string, string> }).attribs || {})) {
+          if (/^on/i.test(name)) $(el).removeAttr(name);
+        }
+      });
+    }
+
+    $('a[href], area[href], iframe[src], frame[src]').each((_, el) => {
+      const attr = $(el).is('a, area') ? 'href' : 'src';
+      const value = $(el).attr(attr)!;
+      // Only archive-local links; other sites, in-page anchors and mailto: etc. are left alone
+      if (!/^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(value)) {
+        $(el).attr(attr, this.withReplayMode(value, 'static'));
+      }
+    });
+
+    $('base').remove();
+    if ($('head').length === 0) {
+      $('html').prepend('<head></head>');
+    }
+    $('head').prepend(`<base href="/api/archives/view/${archiveId}/">`);
+    return $.html();
+  }
+
+  /**
+   * Add the replay mode to a viewer URL, keeping its fragment last. Interactive is the default and isn't added.
+   */
+  private withReplayMode(url: string, mode: ReplayMode): string {
+    if (mode === 'interactive') {
+      return url;
+    }
+    const hashIndex = url.indexOf('#');
+    const [target, hash] = hashIndex >= 0 ? [url.slice(0, hashIndex), url.slice(hashIndex)] : [url, ''];
+    return `${target}${target.includes('?') ? '&' : '?'}${REPLAY_MODE_PARAM}=${mode}${hash}`;
+  }
+
   /**
    * Get an asset file (CSS, JS, images, etc.) from an archived website
    */
   async getArchivedAsset(archiveId: string, assetPath: string): Promise<{ data: Buffer; contentType: string } | null> {
     try {
-      // Verify archive exists and is completed
+      // Verify archive exists and has viewable files
       const archive = await this.archiveService.getArchiveStatus(archiveId);
-      if (!archive || archive.status !== 'completed') {
+      if (!archive || !this.archiveService.isViewable(archive)) {
         return null;
       }
 
@@ -170,13 +246,53 @@ export class ViewerService {
     }
   }
 
+  /**
+   * Get the full-page screenshot or PDF taken when a page was crawled. Without a page path
+   * the archive's first page is used.
+   */
+  async getPageRendition(archiveId: string, kind: 'screenshot' | 'pdf', pagePath?: string): Promise<{ data: Buffer; contentType: string } | null> {
+    try {
+      const archive = await this.archiveService.getArchiveStatus(archiveId);
+      if (!archive || !this.archiveService.isViewable(archive) || !archive.pages?.length) {
+        return null;
+      }
+
+      const page = pagePath ? archive.pages.find(p => p.path === this.getStoredPagePath(pagePath)) : archive.pages[0];
+      const renditionFile = page?.[kind];
+      if (!renditionFile) {
+        return null;
+      }
+
+      const data = await fs.readFile(path.join(process.cwd(), 'archives', archiveId, renditionFile));
+      return { data, contentType: this.getContentType(renditionFile) };
+    } catch (error) {
+      console.error('Failed to get page rendition:', error);
+      return null;
+    }
+  }
+
+  /**
+   * The path a page was stored under (see CrawlerService.generatePagePath), from the path it
+   * is viewed at: about/ is about/index.html, blog/post is blog/post.html and products?page=2
+   * is that query variant's file.
+   */
+  private getStoredPagePath(pagePath: string): string {
+    let storedPath = this.archiveService.resolvePagePath(pagePath.replace(/^\/+/, ''));
+    if (storedPath === '' || storedPath.endsWith('/')) {
+      storedPath += 'index.html';
+    } else if (!path.posix.basename(storedPath).includes('.')) {
+      storedPath += '.html';
+    }
+    return storedPath;
+  }
+
   /**
    * List all available pages in an archive
    */
   async getArchivePages(archiveId: string): Promise<string[] | null> {
     try {
       const archive = await this.archiveService.getArchiveStatus(archiveId);
-      if (!archive || archive.status !== 'completed') {
+      if (!archive || !this.archiveService.isViewable(archive)) {
         return null;
       }
 
@@ -214,10 +330,28 @@ export class ViewerService {
       '.ttf': 'font/ttf',
       '.eot': 'application/vnd.ms-fontobject',
       '.pdf': 'application/pdf',
+      '.doc': 'application/msword',
+      '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      '.xls': 'application/vnd.ms-excel',
+      '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      '.ppt': 'application/vnd.ms-powerpoint',
+      '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      '.odt': 'application/vnd.oasis.opendocument.text',
+      '.ods': 'application/vnd.oasis.opendocument.spreadsheet',
+      '.rtf': 'application/rtf',
+      '.csv': 'text/csv',
+      '.epub': 'application/epub+zip',
+      '.zip': 'application/zip',
+      '.gz': 'application/gzip',
+      '.tar': 'application/x-tar',
+      '.7z': 'application/x-7z-compressed',
       '.mp4': 'video/mp4',
       '.webm': 'video/webm',
       '.mp3': 'audio/mpeg',
       '.wav': 'audio/wav',
+      '.ogg': 'audio/ogg',
+      '.m4a': 'audio/mp4',
+      '.mov': 'video/quicktime',
       '.glb': 'model/gltf-binary',
       '.gltf': 'model/gltf+json',
       '.obj': 'text/plain',
@@ -258,7 +392,7 @@ export class ViewerService {
           
           if (entry.isDirectory()) {
             await searchDir(fullPath);
-          } else if (entry.name.endsWith('.html')) {
+          } else if (entry.name.endsWith('.html') && !entry.name.endsWith('.static.html')) {
             htmlFiles.push(fullPath);
           }
         }
@@ -1,10 +1,50 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { Asset } from './AssetExtractor.ts';
+import { CaptureRecord, CaptureStore, CapturedResponse, RedirectHop, headersToRecord } from './CaptureStore.ts';
+import { CookieJar } from './AuthService.ts';
+import { HostScheduler } from './HostScheduler.ts';
+import { createUrlHash } from './UrlNormalizer.ts';
+import { DocumentOptions, isAllowedDocumentType } from './LinkedDocuments.ts';
+import { RetryPolicy, HttpStatusError, RetriesExhaustedError, FailureReason, describeFailure } from './RetryPolicy.ts';
+
+/**
+ * Per-job context for downloadAssets
+ */
+export interface DownloadOptions {
+  deadline?: number; // Epoch milliseconds; budgets carried over from the crawl stop downloads once used up
+  maxBytes?: number;
+  capturedAssets?: Map<string, CaptureRecord>; // Responses the browser already loaded during the crawl
+  completed?: Map<string, string>; // Assets saved by an earlier, interrupted run (URL -> relative path)
+  onAssetSaved?: (url: string, relativePath: string) => Promise<void>;
+  shouldStop?: () => boolean; // Once true nothing more is fetched; captured assets are local copies and still saved
+  retryPolicy?: RetryPolicy;
+  onAssetFailed?: (asset: Asset, failure: FailureReason, attempts: number) => Promise<void>;
+  cookies?: CookieJar;
+  scheduler?: HostScheduler;
+}
+
+const MAX_REDIRECTS = 10;
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
 
 export class AssetDownloader {
-  
-  async downloadAssets(assets: Asset[], archiveId: string): Promise<Map<string, string>> {
+  private captureStore = new CaptureStore();
+
+  /**
+   * Save every asset into the archive. Assets the browser already loaded during the crawl
+   * (capturedAssets) are copied from the capture store; everything else is fetched,
+   * through the job's host scheduler and with the crawl's session cookies when it was authenticated.
+   * Transient failures are retried; assets that still fail are reported to onAssetFailed.
+   * An asset that redirected is stored under its final URL, and every URL in the chain
+   * is mapped to that file.
+   */
+  async downloadAssets(assets: Asset[], archiveId: string, options: DownloadOptions = {}): Promise<Map<string, string>> {
+    const {
+      capturedAssets = new Map<string, CaptureRecord>(),
+      cookies = new CookieJar(),
+      scheduler = new HostScheduler(),
+      retryPolicy = new RetryPolicy(),
+    } = options;
     console.log(`📥 Starting download of ${assets.length} assets for archive ${archiveId}`);
     
     // Log all CSS assets being downloaded
@@ -16,54 +56,80 @@ export class AssetDownloader {
     
     const downloadStartTime = Date.now();
     
-    const urlMappings = new Map<string, string>();
+    const urlMappings = new Map<string, string>(options.completed);
     const archiveDir = path.join(process.cwd(), 'archives', archiveId);
     
+    // Captures are keyed by the URL they ended at; pages may still reference the one that redirected
+    const redirectedAssets = new Map<string, CaptureRecord>();
+    for (const record of capturedAssets.values()) {
+      (record.redirects || []).forEach(hop => redirectedAssets.set(hop.url, record));
+    }
+    const mapUrls = async (urls: string[], relativePath: string) => {
+      for (const url of new Set(urls)) {
+        urlMappings.set(url, relativePath);
+        await options.onAssetSaved?.(url, relativePath);
+      }
+    };
+    
     let successCount = 0;
     let failedCount = 0;
+    let bytesDownloaded = 0;
+    let stopped = false;
     const failedAssets: string[] = [];
     
     for (const asset of assets) {
+      if (urlMappings.has(asset.url)) {
+        successCount++;
+        continue;
+      }
+      if (options.deadline && Date.now() > options.deadline) {
+        console.warn(`⏹️ Time budget exhausted, skipping the remaining ${assets.length - successCount - failedCount} assets`);
+        break;
+      }
+      if (options.maxBytes !== undefined && bytesDownloaded >= options.maxBytes) {
+        console.warn(`⏹️ Byte budget exhausted, skipping the remaining ${assets.length - successCount - failedCount} assets`);
+        break;
+      }
+      
       try {
-        // First, check if the URL exists to avoid unnecessary 404s
-        const exists = await this.checkUrlExists(asset.url);
-        if (!exists) {
-          failedCount++;
-          failedAssets.push(asset.url);
-          
-          // Only log missing important assets
-          const isImportantAsset = asset.type === 'css' || asset.type === 'js';
-          if (isImportantAsset && Math.random() < 0.1) { // Log 10% of missing important assets
-            console.log(`⚠️ Asset does not exist: ${asset.url}`);
-          }
+        const captured = capturedAssets.get(asset.url) || redirectedAssets.get(asset.url);
+        if (captured) {
+          const body = await this.captureStore.readBody(archiveId, captured);
+          const relativePath = await this.saveAsset(captured.url, body, archiveId);
+          await mapUrls([asset.url, captured.url, ...(captured.redirects || []).map(hop => hop.url)], relativePath);
+          successCount++;
           continue;
         }
         
-        const localPath = this.generateLocalPathPreservingStructure(asset.url, archiveDir);
-        
-        // Ensure directory exists
-        await fs.mkdir(path.dirname(localPath), { recursive: true });
+        if (stopped || options.shouldStop?.()) {
+          if (!stopped) console.log(`⏹️ Download stop requested, saving only assets already captured`);
+          stopped = true;
+          continue;
+        }
         
-        await this.downloadFile(asset.url, localPath);
+        const downloaded = await retryPolicy.run(asset.url, () => this.downloadFile(asset, archiveDir, archiveId, cookies, scheduler));
+        bytesDownloaded += downloaded.size;
         
         // Store relative path for URL rewriting (relative to archive root)
-        const relativePath = path.relative(archiveDir, localPath);
-        urlMappings.set(asset.url, relativePath);
+        const relativePath = path.relative(archiveDir, downloaded.localPath);
+        await mapUrls([asset.url, ...downloaded.redirects.map(hop => hop.url)], relativePath);
         
         successCount++;
         if (successCount % 10 === 0) {
           console.log(`📥 Downloaded ${successCount}/${assets.length} assets...`);
         }
-      } catch (error: any) {
+      } catch (error) {
         failedCount++;
         failedAssets.push(asset.url);
+        const failure = describeFailure(error);
+        await options.onAssetFailed?.(asset, failure, error instanceof RetriesExhaustedError ? error.attempts : 1);
         
-        // Only show detailed error for non-403 errors or if it's an important asset
+        // Missing and forbidden assets are common; only spell out the rest, or CSS/JS
         const isImportantAsset = asset.type === 'css' || asset.type === 'js';
-        const is403Error = error?.message?.includes('403') || error?.message?.includes('Forbidden');
+        const isMissingOrForbidden = failure.status === 403 || failure.status === 404;
         
-        if (!is403Error || isImportantAsset) {
-          console.warn(`❌ Failed to download ${asset.url}:`, error?.message || error);
+        if (!isMissingOrForbidden || isImportantAsset) {
+          console.warn(`❌ Failed to download ${asset.url}: ${failure.message}`);
         }
       }
     }
@@ -104,6 +170,20 @@ export class AssetDownloader {
     return urlMappings;
   }
 
+  /**
+   * Store an asset whose bytes we already have (e.g. from an imported WARC) at the same
+   * location downloadAssets would have used. Returns the path relative to the archive root.
+   */
+  async saveAsset(url: string, data: Buffer, archiveId: string): Promise<string> {
+    const archiveDir = path.join(process.cwd(), 'archives', archiveId);
+    const localPath = this.generateLocalPathPreservingStructure(url, archiveDir);
+    
+    await fs.mkdir(path.dirname(localPath), { recursive: true });
+    await fs.writeFile(localPath, data);
+    
+    return path.relative(archiveDir, localPath);
+  }
+
   /**
    * Generate local path preserving the original URL structure
    */
@@ -123,7 +203,7 @@ export class AssetDownloader {
     
     // Handle query parameters by creating a unique filename
     if (urlObj.search) {
-      const queryHash = this.createUrlHash(originalUrl);
+      const queryHash = createUrlHash(originalUrl);
       const pathParts = urlPath.split('/');
       const filename = pathParts.pop() || 'file';
       const nameWithoutExt = path.parse(filename).name;
@@ -157,46 +237,148 @@ export class AssetDownloader {
   }
 
   /**
-   * Check if a URL exists without downloading the full content
+   * Fetch a linked document (PDF, spreadsheet, ZIP, media) that the crawler found in place of
+   * a page, and keep it in the capture store; downloadAssets later copies it into the archive
+   * like any other captured asset. Documents whose type isn't in the allowlist, or that are
+   * bigger than maxBytes, are not kept and the reason is returned instead.
    */
-  private async checkUrlExists(url: string): Promise<boolean> {
-    try {
-      const response = await fetch(url, { 
-        method: 'HEAD',
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-        }
-      });
-      return response.ok;
-    } catch {
-      // If HEAD fails, try GET with a small range to minimize data transfer
-      try {
-        const response = await fetch(url, {
-          headers: {
-            'Range': 'bytes=0-0',
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-          }
-        });
-        return response.ok || response.status === 206; // 206 = Partial Content
-      } catch {
-        return false;
+  async captureDocument(url: string, archiveId: string, limits: DocumentOptions, cookies: CookieJar = new CookieJar(), scheduler: HostScheduler = new HostScheduler()): Promise<CaptureRecord | { skipped: string }> {
+    if (limits.mimeTypes.length === 0) {
+      return { skipped: 'Document capture is disabled (documents.mimeTypes is empty)' };
+    }
+    
+    const requestHeaders = { 'User-Agent': USER_AGENT };
+    const { response, url: finalUrl, redirects } = await this.fetchFollowingRedirects(url, requestHeaders, cookies, scheduler);
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new HttpStatusError(response.status, response.statusText);
+    }
+    
+    const contentType = response.headers.get('content-type') || '';
+    if (!isAllowedDocumentType(contentType, limits.mimeTypes)) {
+      await response.body?.cancel();
+      return { skipped: `Document type ${contentType.split(';')[0] || 'unknown'} is not in documents.mimeTypes` };
+    }
+    
+    const body = await this.readBodyUpTo(response, limits.maxBytes);
+    if (!body) {
+      return { skipped: `Document is larger than documents.maxBytes (${limits.maxBytes} bytes)` };
+    }
+    
+    console.log(`📎 Captured document ${finalUrl} (${contentType.split(';')[0]}, ${body.length} bytes)`);
+    return this.captureStore.saveResponse(archiveId, 'asset', {
+      url: finalUrl,
+      method: 'GET',
+      status: response.status,
+      statusText: response.statusText,
+      requestHeaders,
+      responseHeaders: headersToRecord(response.headers),
+      body,
+      ...(redirects.length > 0 ? { redirects } : {}),
+    });
+  }
+
+  /**
+   * Keep a linked document the browser already loaded while navigating to it, under the
+   * same limits as captureDocument
+   */
+  async keepDocument(response: CapturedResponse, archiveId: string, limits: DocumentOptions): Promise<CaptureRecord | { skipped: string }> {
+    if (limits.mimeTypes.length === 0) {
+      return { skipped: 'Document capture is disabled (documents.mimeTypes is empty)' };
+    }
+    if (response.status < 200 || response.status >= 300) {
+      throw new HttpStatusError(response.status, response.statusText);
+    }
+    
+    const contentType = response.responseHeaders['content-type'] || '';
+    if (!isAllowedDocumentType(contentType, limits.mimeTypes)) {
+      return { skipped: `Document type ${contentType.split(';')[0] || 'unknown'} is not in documents.mimeTypes` };
+    }
+    if (response.body.length > limits.maxBytes) {
+      return { skipped: `Document is larger than documents.maxBytes (${limits.maxBytes} bytes)` };
+    }
+    
+    console.log(`📎 Captured document ${response.url} (${contentType.split(';')[0]}, ${response.body.length} bytes)`);
+    return this.captureStore.saveResponse(archiveId, 'asset', response);
+  }
+
+  /**
+   * Read a response body, giving up (and cancelling the rest) once it is known to be bigger than maxBytes
+   */
+  private async readBodyUpTo(response: Response, maxBytes: number): Promise<Buffer | null> {
+    if (Number(response.headers.get('content-length')) > maxBytes) {
+      await response.body?.cancel();
+      return null;
+    }
+    if (!response.body) {
+      return Buffer.alloc(0);
+    }
+    
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const reader = response.body.getReader();
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      size += chunk.value.length;
+      if (size > maxBytes) {
+        await reader.cancel();
+        return null;
       }
+      chunks.push(Buffer.from(chunk.value));
     }
+    return Buffer.concat(chunks);
   }
 
-  private async downloadFile(url: string, localPath: string): Promise<void> {
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
+  /**
+   * Fetch url, following redirects here rather than in fetch(), one scheduled request per
+   * hop, so each hop can be recorded and sent its own host's cookies
+   */
+  private async fetchFollowingRedirects(url: string, requestHeaders: Record<string, string>, cookies: CookieJar, scheduler: HostScheduler): Promise<{ response: Response; url: string; redirects: RedirectHop[] }> {
+    const redirects: RedirectHop[] = [];
+    let response = await scheduler.fetch(url, { headers: cookies.applyTo(url, requestHeaders), redirect: 'manual' });
+    
+    for (let location = response.headers.get('location'); response.status >= 300 && response.status < 400 && location; location = response.headers.get('location')) {
+      await response.body?.cancel();
+      if (redirects.length >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
       }
-    });
+      redirects.push({ url, status: response.status, location });
+      url = new URL(location, url).href;
+      response = await scheduler.fetch(url, { headers: cookies.applyTo(url, requestHeaders), redirect: 'manual' });
+    }
+    
+    return { response, url, redirects };
+  }
+
+  /**
+   * Fetch an asset and save it under the URL it ends up at
+   */
+  private async downloadFile(asset: Asset, archiveDir: string, archiveId: string, cookies: CookieJar, scheduler: HostScheduler): Promise<{ localPath: string; size: number; redirects: RedirectHop[] }> {
+    const requestHeaders = { 'User-Agent': USER_AGENT };
+    const { response, url, redirects } = await this.fetchFollowingRedirects(asset.url, requestHeaders, cookies, scheduler);
     
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      await response.body?.cancel();
+      throw new HttpStatusError(response.status, response.statusText);
     }
     
-    const buffer = await response.arrayBuffer();
-    await fs.writeFile(localPath, Buffer.from(buffer));
+    const body = Buffer.from(await response.arrayBuffer());
+    const localPath = this.generateLocalPathPreservingStructure(url, archiveDir);
+    await fs.mkdir(path.dirname(localPath), { recursive: true });
+    await fs.writeFile(localPath, body);
+    
+    // Keep the untouched response so exports don't pick up UrlRewriter's changes
+    await this.captureStore.saveResponse(archiveId, 'asset', {
+      url,
+      method: 'GET',
+      status: response.status,
+      statusText: response.statusText,
+      requestHeaders,
+      responseHeaders: headersToRecord(response.headers),
+      body,
+      ...(redirects.length > 0 ? { redirects } : {}),
+    }, { foundOn: asset.foundOn });
+    
+    return { localPath, size: body.length, redirects };
   }
 
   private generateLocalPath(originalUrl: string, type: Asset['type'], archiveDir: string): string {
@@ -206,7 +388,7 @@ export class AssetDownloader {
     // Handle duplicate filenames by including part of the path or query params
     if (filename === 'style.css' || filename === 'index.css' || filename === 'main.css') {
       // Create a unique filename using URL hash to avoid conflicts
-      const urlHash = this.createUrlHash(originalUrl);
+      const urlHash = createUrlHash(originalUrl);
       const nameWithoutExt = path.parse(filename).name;
       const ext = path.parse(filename).ext || '.css';
       filename = `${nameWithoutExt}-${urlHash}${ext}`;
@@ -221,17 +403,6 @@ export class AssetDownloader {
     return path.join(archiveDir, 'assets', subdir, finalFilename);
   }
 
-  private createUrlHash(url: string): string {
-    // Create a short hash from the full URL to ensure uniqueness
-    let hash = 0;
-    for (let i = 0; i < url.length; i++) {
-      const char = url.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32bit integer
-    }
-    return Math.abs(hash).toString(36).substring(0, 6);
-  }
-
   private ensureExtension(filename: string, type: Asset['type']): string {
     const hasExtension = filename.includes('.');
     
@@ -243,6 +414,7 @@ export class AssetDownloader {
       image: '.png',
       font: '.woff2',
       model: '.glb',
+      media: '.mp4',
       other: '.bin'
     };
     
@@ -256,6 +428,7 @@ export class AssetDownloader {
       image: 'images',
       font: 'fonts',
       model: 'models',
+      media: 'media',
       other: 'other'
     };
     
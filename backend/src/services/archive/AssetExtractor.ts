@@ -1,14 +1,128 @@
 import * as cheerio from 'cheerio';
+import { CookieJar } from './AuthService.ts';
+import { HostScheduler } from './HostScheduler.ts';
 
 export interface Asset {
   url: string;
-  type: 'css' | 'js' | 'image' | 'font' | 'model' | 'other';
+  type: 'css' | 'js' | 'image' | 'font' | 'model' | 'media' | 'other';
   foundOn: string;
 }
 
+/**
+ * An attribute that references an asset, beyond the stylesheets, scripts, img[src] and
+ * icons handled on their own. Shared with UrlRewriter so everything extracted from these
+ * is also pointed at its archived copy.
+ */
+export interface AssetReference {
+  selector: string;
+  attribute: string;
+  type: Asset['type'];
+  srcset?: boolean; // A comma-separated list of candidates with width/density descriptors
+}
+
+export const ASSET_REFERENCES: AssetReference[] = [
+  { selector: 'img[srcset], source[srcset]', attribute: 'srcset', type: 'image', srcset: true },
+  { selector: 'video[src], audio[src], video > source[src], audio > source[src]', attribute: 'src', type: 'media' },
+  { selector: 'video[poster]', attribute: 'poster', type: 'image' },
+  { selector: 'track[src]', attribute: 'src', type: 'other' },
+  { selector: 'object[data]', attribute: 'data', type: 'other' },
+  { selector: 'embed[src]', attribute: 'src', type: 'other' },
+  { selector: 'input[type="image"][src]', attribute: 'src', type: 'image' },
+  // SVG 2 uses href, older markup xlink:href
+  { selector: 'image[href], use[href]', attribute: 'href', type: 'image' },
+  { selector: 'image[xlink\\:href], use[xlink\\:href]', attribute: 'xlink:href', type: 'image' },
+  { selector: 'meta[property="og:image"], meta[property="og:image:url"], meta[property="og:image:secure_url"], meta[name="twitter:image"]', attribute: 'content', type: 'image' },
+  { selector: 'link[rel~="manifest"]', attribute: 'href', type: 'other' },
+];
+
+/**
+ * Split a srcset attribute into its candidates, following the HTML parsing rules: a URL runs
+ * to the next whitespace (so it may contain commas), and its descriptors to the next comma
+ * outside parentheses
+ */
+export function parseSrcset(srcset: string): Array<{ url: string; descriptor: string }> {
+  const candidates: Array<{ url: string; descriptor: string }> = [];
+  let position = 0;
+
+  while (position < srcset.length) {
+    while (position < srcset.length && /[\s,]/.test(srcset[position])) position++;
+    const start = position;
+    while (position < srcset.length && !/\s/.test(srcset[position])) position++;
+    let url = srcset.slice(start, position);
+    let descriptor = '';
+
+    if (url.endsWith(',')) {
+      url = url.replace(/,+$/, '');
+    } else {
+      const descriptorStart = position;
+      let depth = 0;
+      while (position < srcset.length && (srcset[position] !== ',' || depth > 0)) {
+        if (srcset[position] === '(') depth++;
+        else if (srcset[position] === ')') depth = Math.max(0, depth - 1);
+        position++;
+      }
+      descriptor = srcset.slice(descriptorStart, position).trim();
+    }
+    if (url) {
+      candidates.push({ url, descriptor });
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * The URL relative references in a document resolve against: its <base href> when it has
+ * one, otherwise the page's own URL
+ */
+export function getDocumentBaseUrl($: ReturnType<typeof cheerio.load>, pageUrl: string): string {
+  const href = $('base[href]').first().attr('href');
+  if (!href) return pageUrl;
+  try {
+    return new URL(href, pageUrl).href;
+  } catch {
+    return pageUrl;
+  }
+}
+
+/**
+ * Whether a reference can't be fetched as an asset: inline data, fragments within the
+ * document and non-network schemes
+ */
+export function isInlineReference(value: string): boolean {
+  return value.startsWith('#') || /^(data|blob|javascript|about|mailto|tel):/i.test(value);
+}
+
+/**
+ * Looks up the body of a response the browser already loaded, so we don't fetch it again
+ */
+export type CapturedContentLookup = (url: string) => Promise<string | null>;
+
 export class AssetExtractor {
   
-  async extractAssetsFromPages(pagesData: Array<{url: string, html: string}>): Promise<Asset[]> {
+  /**
+   * Describe a response captured at the network layer as an Asset
+   */
+  createAssetFromResponse(url: string, contentType: string, foundOn: string): Asset {
+    const mime = contentType.split(';')[0].trim().toLowerCase();
+    let type: Asset['type'] = this.determineAssetType(new URL(url).pathname);
+    
+    if (mime === 'text/css') type = 'css';
+    else if (mime.includes('javascript') || mime === 'text/ecmascript') type = 'js';
+    else if (mime.startsWith('image/')) type = 'image';
+    else if (mime.startsWith('font/') || mime.includes('font-woff') || mime === 'application/vnd.ms-fontobject') type = 'font';
+    else if (mime.startsWith('model/')) type = 'model';
+    else if (mime.startsWith('video/') || mime.startsWith('audio/')) type = 'media';
+    
+    return { url, type, foundOn };
+  }
+  
+  async extractAssetsFromPages(
+    pagesData: Array<{url: string, html: string}>,
+    capturedContent?: CapturedContentLookup,
+    cookies: CookieJar = new CookieJar(),
+    scheduler: HostScheduler = new HostScheduler()
+  ): Promise<Asset[]> {
     const allAssets: Asset[] = [];
     const jsFilesToParse: Asset[] = [];
     
@@ -32,7 +146,7 @@ export class AssetExtractor {
     console.log(`🔍 Parsing ${jsFilesToParse.length} external JS files for asset references...`);
     for (const jsAsset of jsFilesToParse) {
       try {
-        const jsContent = await this.fetchJavaScriptContent(jsAsset.url);
+        const jsContent = await this.fetchJavaScriptContent(jsAsset.url, capturedContent, cookies, scheduler);
         if (jsContent) {
           const additionalAssets = this.parseAssetsFromJavaScript(jsContent, jsAsset.url);
           console.log(`🔍 Found ${additionalAssets.length} additional assets in ${jsAsset.url}`);
@@ -48,7 +162,7 @@ export class AssetExtractor {
     console.log(`🎨 Parsing ${cssFilesToParse.length} external CSS files for asset references...`);
     for (const cssAsset of cssFilesToParse) {
       try {
-        const cssContent = await this.fetchCSSContent(cssAsset.url);
+        const cssContent = await this.fetchCSSContent(cssAsset.url, capturedContent, cookies, scheduler);
         if (cssContent) {
           const additionalAssets = this.parseAssetsFromCssSync(cssContent, cssAsset.url);
           console.log(`🎨 Found ${additionalAssets.length} additional assets in ${cssAsset.url}`);
@@ -63,9 +177,10 @@ export class AssetExtractor {
     return this.deduplicateAssets(allAssets);
   }
 
-  async parseAssetsFromHtml(html: string, baseUrl: string): Promise<Asset[]> {
+  async parseAssetsFromHtml(html: string, pageUrl: string): Promise<Asset[]> {
     const $ = cheerio.load(html);
     const assets: Asset[] = [];
+    const baseUrl = getDocumentBaseUrl($, pageUrl); // For resolving only; assets are found on the page itself
 
     // CSS files
     $('link[rel="stylesheet"]').each((_, el) => {
@@ -76,7 +191,7 @@ export class AssetExtractor {
         assets.push({
           url: resolvedUrl,
           type: 'css',
-          foundOn: baseUrl
+          foundOn: pageUrl
         });
         
         // If this is a Google Fonts or external font CSS, mark it for special handling
@@ -93,7 +208,7 @@ export class AssetExtractor {
         assets.push({
           url: this.resolveUrl(baseUrl, src),
           type: 'js',
-          foundOn: baseUrl
+          foundOn: pageUrl
         });
       }
     });
@@ -105,7 +220,7 @@ export class AssetExtractor {
         assets.push({
           url: this.resolveUrl(baseUrl, src),
           type: 'image',
-          foundOn: baseUrl
+          foundOn: pageUrl
         });
       }
     });
@@ -117,11 +232,39 @@ export class AssetExtractor {
         assets.push({
           url: this.resolveUrl(baseUrl, href),
           type: 'image',
-          foundOn: baseUrl
+          foundOn: pageUrl
         });
       }
     });
 
+    // Responsive images, media, embeds, SVG references, social images and the web app manifest
+    for (const reference of ASSET_REFERENCES) {
+      $(reference.selector).each((_, el) => {
+        const value = $(el).attr(reference.attribute)?.trim();
+        if (!value) return;
+        const urls = reference.srcset ? parseSrcset(value).map(candidate => candidate.url) : [value];
+        for (const url of urls) {
+          if (!isInlineReference(url)) {
+            const resolvedUrl = this.resolveAssetUrl(baseUrl, url);
+            assets.push({
+              url: resolvedUrl,
+              // Objects, embeds and tracks can be anything; go by their extension
+              type: reference.type === 'other' ? this.determineAssetType(resolvedUrl.split('?')[0]) : reference.type,
+              foundOn: pageUrl
+            });
+          }
+        }
+      });
+    }
+
+    // Backgrounds and other url() references in style attributes
+    $('[style]').each((_, el) => {
+      const style = $(el).attr('style');
+      if (style && style.includes('url(')) {
+        assets.push(...this.parseAssetsFromCssSync(style, baseUrl, pageUrl));
+      }
+    });
+
     return assets;
   }
 
@@ -157,14 +300,15 @@ export class AssetExtractor {
     return assets;
   }
 
-  private async extractFromInlineCSS(html: string, baseUrl: string): Promise<Asset[]> {
+  private async extractFromInlineCSS(html: string, pageUrl: string): Promise<Asset[]> {
     const $ = cheerio.load(html);
     const assets: Asset[] = [];
+    const baseUrl = getDocumentBaseUrl($, pageUrl);
 
     $('style').each((_, el) => {
       const css = $(el).html();
       if (css) {
-        const cssAssets = this.parseAssetsFromCssSync(css, baseUrl);
+        const cssAssets = this.parseAssetsFromCssSync(css, baseUrl, pageUrl);
         assets.push(...cssAssets);
       }
     });
@@ -172,7 +316,7 @@ export class AssetExtractor {
     return assets;
   }
 
-  private parseAssetsFromCssSync(css: string, baseUrl: string): Asset[] {
+  private parseAssetsFromCssSync(css: string, baseUrl: string, foundOn: string = baseUrl): Asset[] {
     const assets: Asset[] = [];
     const urlRegex = /url\(['"]?([^'")\s]+)['"]?\)/g;
     let match;
@@ -183,7 +327,7 @@ export class AssetExtractor {
         assets.push({
           url: this.resolveUrl(baseUrl, url),
           type: this.determineAssetType(url),
-          foundOn: baseUrl
+          foundOn
         });
       }
     }
@@ -191,15 +335,16 @@ export class AssetExtractor {
     return assets;
   }
 
-  private async extractFromJavaScript(html: string, baseUrl: string): Promise<Asset[]> {
+  private async extractFromJavaScript(html: string, pageUrl: string): Promise<Asset[]> {
     const $ = cheerio.load(html);
     const assets: Asset[] = [];
+    const baseUrl = getDocumentBaseUrl($, pageUrl);
 
     // Extract from inline JavaScript
     $('script:not([src])').each((_, el) => {
       const jsContent = $(el).html();
       if (jsContent) {
-        const jsAssets = this.parseAssetsFromJavaScript(jsContent, baseUrl);
+        const jsAssets = this.parseAssetsFromJavaScript(jsContent, baseUrl, pageUrl);
         assets.push(...jsAssets);
       }
     });
@@ -207,7 +352,7 @@ export class AssetExtractor {
     return assets;
   }
 
-  private parseAssetsFromJavaScript(jsContent: string, baseUrl: string): Asset[] {
+  private parseAssetsFromJavaScript(jsContent: string, baseUrl: string, foundOn: string = baseUrl): Asset[] {
     const assets: Asset[] = [];
     
     // Enhanced patterns to catch fetch calls and JSON files
@@ -252,7 +397,7 @@ export class AssetExtractor {
             assets.push({
               url: resolvedUrl,
               type: assetType,
-              foundOn: baseUrl
+              foundOn
             });
           } catch (error) {
             // Skip invalid URLs silently
@@ -286,13 +431,18 @@ export class AssetExtractor {
     return validExts.includes(ext || '') || hasCommonEndpoint;
   }
 
-  private async fetchJavaScriptContent(url: string): Promise<string | null> {
+  private async fetchJavaScriptContent(url: string, capturedContent: CapturedContentLookup | undefined, cookies: CookieJar, scheduler: HostScheduler): Promise<string | null> {
+    const captured = await capturedContent?.(url);
+    if (captured) {
+      return captured;
+    }
+    
     try {
       console.log(`📥 Fetching JS content from: ${url}`);
-      const response = await fetch(url, {
-        headers: {
+      const response = await scheduler.fetch(url, {
+        headers: cookies.applyTo(url, {
           'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-        },
+        }),
 
       });
       
@@ -310,13 +460,18 @@ export class AssetExtractor {
     }
   }
 
-  private async fetchCSSContent(url: string): Promise<string | null> {
+  private async fetchCSSContent(url: string, capturedContent: CapturedContentLookup | undefined, cookies: CookieJar, scheduler: HostScheduler): Promise<string | null> {
+    const captured = await capturedContent?.(url);
+    if (captured) {
+      return captured;
+    }
+    
     try {
       console.log(`📥 Fetching CSS content from: ${url}`);
-      const response = await fetch(url, {
-        headers: {
+      const response = await scheduler.fetch(url, {
+        headers: cookies.applyTo(url, {
           'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-        },
+        }),
 
       });
       
@@ -339,9 +494,10 @@ export class AssetExtractor {
     
     if (['css'].includes(extension || '')) return 'css';
     if (['js', 'mjs'].includes(extension || '')) return 'js';
-    if (['jpg', 'jpeg', 'png', 'gif', 'svg', 'webp', 'ico'].includes(extension || '')) return 'image';
+    if (['jpg', 'jpeg', 'png', 'gif', 'svg', 'webp', 'avif', 'ico'].includes(extension || '')) return 'image';
     if (['woff', 'woff2', 'ttf', 'eot', 'otf'].includes(extension || '')) return 'font';
     if (['glb', 'gltf', 'obj', 'fbx', 'dae', '3ds', 'ply', 'stl'].includes(extension || '')) return 'model';
+    if (['mp4', 'webm', 'ogv', 'mov', 'mp3', 'ogg', 'oga', 'wav', 'm4a', 'aac', 'flac'].includes(extension || '')) return 'media';
     
     return 'other';
   }
@@ -354,6 +510,19 @@ export class AssetExtractor {
     }
   }
 
+  /**
+   * Resolve a reference to the asset it loads; fragments (an SVG sprite's #icon, a media #t=10) are dropped
+   */
+  private resolveAssetUrl(baseUrl: string, relativeUrl: string): string {
+    try {
+      const url = new URL(relativeUrl, baseUrl);
+      url.hash = '';
+      return url.href;
+    } catch {
+      return relativeUrl;
+    }
+  }
+
   private deduplicateAssets(assets: Asset[]): Asset[] {
     const seen = new Set<string>();
     return assets.filter(asset => {
@@ -0,0 +1,215 @@
+import { chromium } from 'playwright';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Playwright's storage state: cookies plus localStorage per origin
+ */
+export interface StorageState {
+  cookies: Array<{
+    name: string;
+    value: string;
+    domain: string;
+    path: string;
+    expires: number; // Unix seconds, -1 for session cookies
+    httpOnly: boolean;
+    secure: boolean;
+    sameSite: 'Strict' | 'Lax' | 'None';
+  }>;
+  origins: Array<{
+    origin: string;
+    localStorage: Array<{ name: string; value: string }>;
+  }>;
+}
+
+/**
+ * How a crawl job logs in: either a storage-state blob sent with the request, or the
+ * name of a scripted login in the local secrets file
+ */
+export type CrawlAuth = { storageState: StorageState } | { login: string };
+
+/**
+ * What is recorded on the archive about its authentication. Never contains credentials.
+ */
+export interface CrawlAuthSummary {
+  method: 'storageState' | 'login';
+  login?: string; // Name of the scripted login, so re-archives can reuse it
+}
+
+/**
+ * A scripted login from the secrets file
+ */
+export interface LoginProfile {
+  loginUrl: string;
+  usernameSelector: string;
+  passwordSelector: string;
+  submitSelector: string;
+  username: string;
+  password: string;
+  successSelector?: string; // Waited for after submitting; otherwise we wait for navigation to settle
+}
+
+const LOGIN_PROFILE_FIELDS = ['loginUrl', 'usernameSelector', 'passwordSelector', 'submitSelector', 'username', 'password'] as const;
+
+/**
+ * Validate the shape of the `auth` field of an archive request
+ */
+export function validateCrawlAuth(input: unknown): { auth?: CrawlAuth; errors: string[] } {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { errors: ['auth must be an object'] };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const keys = Object.keys(raw);
+  if (keys.length !== 1 || (keys[0] !== 'storageState' && keys[0] !== 'login')) {
+    return { errors: ['auth must have exactly one of "storageState" or "login"'] };
+  }
+
+  if (raw.login !== undefined) {
+    return typeof raw.login === 'string' && raw.login.trim()
+      ? { auth: { login: raw.login.trim() }, errors: [] }
+      : { errors: ['auth.login must be the name of a login in the secrets file'] };
+  }
+
+  const state = raw.storageState as Record<string, unknown>;
+  if (typeof state !== 'object' || state === null || !Array.isArray(state.cookies) ||
+      (state.origins !== undefined && !Array.isArray(state.origins))) {
+    return { errors: ['auth.storageState must be a Playwright storage state with a cookies array'] };
+  }
+  const invalidCookie = (state.cookies as unknown[]).some(cookie => {
+    const c = cookie as Record<string, unknown>;
+    return typeof c !== 'object' || c === null || typeof c.name !== 'string' || typeof c.value !== 'string' || typeof c.domain !== 'string';
+  });
+  if (invalidCookie) {
+    return { errors: ['auth.storageState cookies need a name, value and domain'] };
+  }
+
+  const cookies = (state.cookies as Array<Partial<StorageState['cookies'][number]>>).map(cookie => ({
+    name: cookie.name!,
+    value: cookie.value!,
+    domain: cookie.domain!,
+    path: cookie.path || '/',
+    expires: cookie.expires ?? -1,
+    httpOnly: cookie.httpOnly ?? false,
+    secure: cookie.secure ?? false,
+    sameSite: cookie.sameSite || 'Lax',
+  }));
+  return { auth: { storageState: { cookies, origins: (state.origins as StorageState['origins']) || [] } }, errors: [] };
+}
+
+/**
+ * Builds Cookie headers from a storage state, so plain fetch() calls are sent with the
+ * same session as the browser
+ */
+export class CookieJar {
+  constructor(private cookies: StorageState['cookies'] = []) {}
+
+  getCookieHeader(url: string): string | undefined {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      return undefined;
+    }
+    const now = Date.now() / 1000;
+
+    const matching = this.cookies.filter(cookie => {
+      const domain = cookie.domain.toLowerCase().replace(/^\./, '');
+      const host = target.hostname.toLowerCase();
+      const domainMatches = cookie.domain.startsWith('.')
+        ? host === domain || host.endsWith(`.${domain}`)
+        : host === domain;
+      const cookiePath = cookie.path || '/';
+      const pathMatches = target.pathname === cookiePath || target.pathname.startsWith(cookiePath.endsWith('/') ? cookiePath : `${cookiePath}/`);
+      const notExpired = cookie.expires === -1 || cookie.expires > now;
+      return domainMatches && pathMatches && notExpired && (!cookie.secure || target.protocol === 'https:');
+    });
+
+    return matching.length > 0 ? matching.map(cookie => `${cookie.name}=${cookie.value}`).join('; ') : undefined;
+  }
+
+  /**
+   * Add the Cookie header for url to a set of request headers
+   */
+  applyTo(url: string, headers: Record<string, string>): Record<string, string> {
+    const cookie = this.getCookieHeader(url);
+    return cookie ? { ...headers, Cookie: cookie } : headers;
+  }
+}
+
+/**
+ * Turns a job's CrawlAuth into browser storage state, running scripted logins with
+ * credentials read from the local secrets file
+ */
+export class AuthService {
+  private secretsFile = process.env.ARCHIVE_SECRETS_FILE || path.join(process.cwd(), 'secrets', 'logins.json');
+
+  async hasLogin(name: string): Promise<boolean> {
+    return (await this.getLoginProfile(name)) !== null;
+  }
+
+  summarize(auth: CrawlAuth): CrawlAuthSummary {
+    return 'login' in auth ? { method: 'login', login: auth.login } : { method: 'storageState' };
+  }
+
+  /**
+   * Produce the storage state the crawl's browser context should start with
+   */
+  async getStorageState(auth: CrawlAuth): Promise<StorageState> {
+    if ('storageState' in auth) {
+      return auth.storageState;
+    }
+
+    const profile = await this.getLoginProfile(auth.login);
+    if (!profile) {
+      throw new Error(`Login "${auth.login}" is not defined in the secrets file`);
+    }
+    return this.login(auth.login, profile);
+  }
+
+  private async login(name: string, profile: LoginProfile): Promise<StorageState> {
+    console.log(`🔐 Logging in with "${name}" at ${profile.loginUrl}`);
+    const browser = await chromium.launch();
+    try {
+      const context = await browser.newContext();
+      const page = await context.newPage();
+      await page.goto(profile.loginUrl, { waitUntil: 'networkidle', timeout: 60000 });
+      await page.fill(profile.usernameSelector, profile.username);
+      await page.fill(profile.passwordSelector, profile.password);
+      await Promise.all([
+        page.waitForLoadState('networkidle', { timeout: 60000 }),
+        page.click(profile.submitSelector),
+      ]);
+      if (profile.successSelector) {
+        await page.waitForSelector(profile.successSelector, { timeout: 30000 });
+      }
+
+      const state = await context.storageState();
+      console.log(`🔐 Logged in with "${name}" (${state.cookies.length} cookies)`);
+      return state;
+    } catch (error) {
+      // Playwright errors can echo the filled values; report only the step that failed
+      throw new Error(`Login "${name}" failed: ${error instanceof Error ? error.message.split('\n')[0] : 'unknown error'}`);
+    } finally {
+      await browser.close();
+    }
+  }
+
+  /**
+   * Read a login from the secrets file. The file is read on every call so rotated
+   * credentials are picked up without a restart.
+   */
+  private async getLoginProfile(name: string): Promise<LoginProfile | null> {
+    try {
+      const secrets = JSON.parse(await fs.readFile(this.secretsFile, 'utf8'));
+      const profile = secrets?.logins?.[name];
+      if (!profile || LOGIN_PROFILE_FIELDS.some(field => typeof profile[field] !== 'string')) {
+        return null;
+      }
+      return profile as LoginProfile;
+    } catch (error) {
+      console.warn(`⚠️ Could not read secrets file ${this.secretsFile}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+}
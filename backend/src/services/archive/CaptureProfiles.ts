@@ -0,0 +1,205 @@
+import { BrowserContextOptions, devices } from 'playwright';
+
+export type CaptureProfileName = 'desktop' | 'tablet' | 'mobile' | 'custom';
+
+/**
+ * The device and locale a capture is rendered as, stored with the archive so the viewer
+ * can show it at the viewport it was recorded with
+ */
+export interface CaptureProfile {
+  name: CaptureProfileName;
+  viewport: { width: number; height: number };
+  deviceScaleFactor: number;
+  isMobile: boolean; // Honour <meta name="viewport"> and report a mobile browser
+  hasTouch: boolean;
+  userAgent?: string; // Chromium's own when absent
+  locale?: string; // e.g. "de-DE"; sets navigator.language and Accept-Language
+  timezoneId?: string; // IANA zone, e.g. "Europe/Berlin"
+  geolocation?: { latitude: number; longitude: number; accuracy?: number }; // Granted to every page when set
+}
+
+function fromDevice(name: CaptureProfileName, descriptor: (typeof devices)[string]): CaptureProfile {
+  const { viewport, deviceScaleFactor, isMobile, hasTouch, userAgent } = descriptor;
+  return { name, viewport: { ...viewport }, deviceScaleFactor, isMobile, hasTouch, userAgent };
+}
+
+export const CAPTURE_PROFILES: Record<Exclude<CaptureProfileName, 'custom'>, CaptureProfile> = {
+  // What every capture used before profiles existed: Playwright's default viewport and user agent
+  desktop: { name: 'desktop', viewport: { width: 1280, height: 720 }, deviceScaleFactor: 1, isMobile: false, hasTouch: false },
+  tablet: fromDevice('tablet', devices['iPad (gen 7)']),
+  mobile: fromDevice('mobile', devices['iPhone 13']),
+};
+
+const LIMITS = {
+  width: { min: 200, max: 7680 },
+  height: { min: 200, max: 4320 },
+  deviceScaleFactor: { min: 0.5, max: 4 },
+  userAgentLength: 512,
+};
+
+// BCP 47 language tag, e.g. "en", "pt-BR", "zh-Hant-TW"
+const LOCALE_PATTERN = /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/;
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate the profile field of a request: a preset name, or an object of overrides on
+ * top of a preset ("base", desktop when absent), which makes a custom profile
+ */
+export function validateCaptureProfile(input: unknown, defaults: CaptureProfile = CAPTURE_PROFILES.desktop): { profile?: CaptureProfile; errors: string[] } {
+  const errors: string[] = [];
+  const presets = Object.keys(CAPTURE_PROFILES);
+  if (input === undefined || input === null) {
+    return { profile: { ...defaults }, errors };
+  }
+  if (typeof input === 'string') {
+    return input in CAPTURE_PROFILES
+      ? { profile: { ...CAPTURE_PROFILES[input as keyof typeof CAPTURE_PROFILES] }, errors }
+      : { errors: [`profile must be one of ${presets.join(', ')} or an object`] };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { errors: [`profile must be one of ${presets.join(', ')} or an object`] };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const known = new Set(['base', 'viewport', 'deviceScaleFactor', 'isMobile', 'hasTouch', 'userAgent', 'locale', 'timezoneId', 'geolocation']);
+  for (const key of Object.keys(raw)) {
+    if (!known.has(key)) {
+      errors.push(`Unknown option "profile.${key}"`);
+    }
+  }
+
+  let base = CAPTURE_PROFILES.desktop;
+  if (raw.base !== undefined) {
+    if (typeof raw.base !== 'string' || !(raw.base in CAPTURE_PROFILES)) {
+      errors.push(`profile.base must be one of ${presets.join(', ')}`);
+    } else {
+      base = CAPTURE_PROFILES[raw.base as keyof typeof CAPTURE_PROFILES];
+    }
+  }
+  const profile: CaptureProfile = { ...base, viewport: { ...base.viewport }, name: 'custom' };
+
+  if (raw.viewport !== undefined) {
+    const viewport = raw.viewport as Record<string, unknown>;
+    if (typeof viewport !== 'object' || viewport === null || Array.isArray(viewport)) {
+      errors.push('profile.viewport must be an object with width and height');
+    } else {
+      for (const key of Object.keys(viewport)) {
+        if (key !== 'width' && key !== 'height') {
+          errors.push(`Unknown option "profile.viewport.${key}"`);
+          continue;
+        }
+        const { min, max } = LIMITS[key];
+        const value = viewport[key];
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+          errors.push(`profile.viewport.${key} must be an integer between ${min} and ${max}`);
+        } else {
+          profile.viewport[key] = value;
+        }
+      }
+    }
+  }
+
+  if (raw.deviceScaleFactor !== undefined) {
+    const { min, max } = LIMITS.deviceScaleFactor;
+    const value = raw.deviceScaleFactor;
+    if (typeof value !== 'number' || value < min || value > max) {
+      errors.push(`profile.deviceScaleFactor must be a number between ${min} and ${max}`);
+    } else {
+      profile.deviceScaleFactor = value;
+    }
+  }
+
+  for (const key of ['isMobile', 'hasTouch'] as const) {
+    if (raw[key] === undefined) continue;
+    if (typeof raw[key] !== 'boolean') {
+      errors.push(`profile.${key} must be a boolean`);
+    } else {
+      profile[key] = raw[key] as boolean;
+    }
+  }
+
+  if (raw.userAgent !== undefined) {
+    const value = raw.userAgent;
+    if (typeof value !== 'string' || !value.trim() || value.length > LIMITS.userAgentLength) {
+      errors.push(`profile.userAgent must be a non-empty string of at most ${LIMITS.userAgentLength} characters`);
+    } else {
+      profile.userAgent = value;
+    }
+  }
+
+  if (raw.locale !== undefined) {
+    if (typeof raw.locale !== 'string' || !LOCALE_PATTERN.test(raw.locale)) {
+      errors.push('profile.locale must be a language tag such as "en-US"');
+    } else {
+      profile.locale = raw.locale;
+    }
+  }
+
+  if (raw.timezoneId !== undefined) {
+    if (typeof raw.timezoneId !== 'string' || !isTimeZone(raw.timezoneId)) {
+      errors.push('profile.timezoneId must be an IANA time zone such as "Europe/Berlin"');
+    } else {
+      profile.timezoneId = raw.timezoneId;
+    }
+  }
+
+  if (raw.geolocation !== undefined) {
+    const geo = raw.geolocation as Record<string, unknown>;
+    if (typeof geo !== 'object' || geo === null || Array.isArray(geo)) {
+      errors.push('profile.geolocation must be an object with latitude and longitude');
+    } else {
+      const { latitude, longitude, accuracy } = geo;
+      for (const key of Object.keys(geo)) {
+        if (!['latitude', 'longitude', 'accuracy'].includes(key)) {
+          errors.push(`Unknown option "profile.geolocation.${key}"`);
+        }
+      }
+      if (typeof latitude !== 'number' || latitude < -90 || latitude > 90) {
+        errors.push('profile.geolocation.latitude must be a number between -90 and 90');
+      }
+      if (typeof longitude !== 'number' || longitude < -180 || longitude > 180) {
+        errors.push('profile.geolocation.longitude must be a number between -180 and 180');
+      }
+      if (accuracy !== undefined && (typeof accuracy !== 'number' || accuracy < 0)) {
+        errors.push('profile.geolocation.accuracy must be a non-negative number of meters');
+      }
+      profile.geolocation = { latitude: latitude as number, longitude: longitude as number, ...(accuracy !== undefined && { accuracy: accuracy as number }) };
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { profile, errors };
+}
+
+/**
+ * Browser context settings that render pages as the profile's device, in its locale and place
+ */
+export function toContextOptions(profile: CaptureProfile): BrowserContextOptions {
+  const { viewport, deviceScaleFactor, isMobile, hasTouch, userAgent, locale, timezoneId, geolocation } = profile;
+  return {
+    viewport,
+    deviceScaleFactor,
+    isMobile,
+    hasTouch,
+    userAgent,
+    locale,
+    timezoneId,
+    geolocation,
+    permissions: geolocation ? ['geolocation'] : undefined,
+  };
+}
+
+/**
+ * Short description for logs, e.g. "mobile 390x664 @3x"
+ */
+export function describeCaptureProfile(profile: CaptureProfile): string {
+  const extras = [profile.locale, profile.timezoneId].filter(Boolean).join(', ');
+  return `${profile.name} ${profile.viewport.width}x${profile.viewport.height} @${profile.deviceScaleFactor}x${extras ? ` (${extras})` : ''}`;
+}
@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { BehaviorLog } from './PageBehaviors.ts';
+
+/**
+ * One redirect that was followed on the way to a response
+ */
+export interface RedirectHop {
+  url: string;
+  status?: number; // Missing when the browser didn't expose the redirect's response
+  location: string; // As sent, possibly relative to url
+}
+
+/**
+ * An HTTP exchange exactly as it came off the wire (body already decoded by the client)
+ */
+export interface CapturedResponse {
+  url: string; // Where the response came from, after any redirects
+  method: string;
+  status: number;
+  statusText: string;
+  requestHeaders: Record<string, string>;
+  responseHeaders: Record<string, string>;
+  body: Buffer;
+  redirects?: RedirectHop[]; // Redirects followed to get here, in order; url is the last one's target
+}
+
+export interface CaptureRecord extends Omit<CapturedResponse, 'body'> {
+  kind: 'page' | 'asset';
+  bodyFile: string; // Relative to the archive's capture directory
+  size: number;
+  capturedAt: string;
+  outlinks?: string[];
+  foundOn?: string;
+  behaviors?: BehaviorLog[]; // Page behaviors run before the snapshot
+}
+
+// Session credentials are never written to disk (and so never end up in a WARC export)
+const REDACTED_REQUEST_HEADERS = ['cookie', 'authorization', 'proxy-authorization'];
+const REDACTED_RESPONSE_HEADERS = ['set-cookie'];
+
+/**
+ * Convert a fetch Headers object into a plain record. Repeated headers are joined with
+ * newlines, which is the same convention Playwright uses for allHeaders().
+ */
+export function headersToRecord(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    const key = name.toLowerCase();
+    record[key] = record[key] !== undefined ? `${record[key]}\n${value}` : value;
+  });
+  return record;
+}
+
+/**
+ * Keeps the original, un-rewritten bytes and headers of every page and asset we fetched.
+ * The files under archives/<id> are modified by UrlRewriter for replay, so anything that
+ * needs the real responses (e.g. WARC export) reads from here instead.
+ */
+export class CaptureStore {
+  private baseDir = path.join(process.cwd(), 'captures');
+
+  async saveResponse(
+    archiveId: string,
+    kind: CaptureRecord['kind'],
+    response: CapturedResponse,
+    extra: Pick<CaptureRecord, 'outlinks' | 'foundOn' | 'behaviors'> = {}
+  ): Promise<CaptureRecord> {
+    const captureDir = this.getCaptureDir(archiveId);
+    const bodyFile = path.join('bodies', `${this.hashUrl(response.url)}.bin`);
+
+    await fs.mkdir(path.join(captureDir, 'bodies'), { recursive: true });
+    await fs.writeFile(path.join(captureDir, bodyFile), response.body);
+
+    const { body, ...exchange } = response;
+    const record: CaptureRecord = {
+      ...exchange,
+      requestHeaders: this.withoutHeaders(exchange.requestHeaders, REDACTED_REQUEST_HEADERS),
+      responseHeaders: this.withoutHeaders(exchange.responseHeaders, REDACTED_RESPONSE_HEADERS),
+      kind,
+      bodyFile,
+      size: body.length,
+      capturedAt: new Date().toISOString(),
+      ...extra,
+    };
+
+    await fs.appendFile(path.join(captureDir, 'records.jsonl'), JSON.stringify(record) + '\n', 'utf8');
+    return record;
+  }
+
+  async listRecords(archiveId: string): Promise<CaptureRecord[]> {
+    try {
+      const data = await fs.readFile(path.join(this.getCaptureDir(archiveId), 'records.jsonl'), 'utf8');
+      return data
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line) as CaptureRecord);
+    } catch {
+      return [];
+    }
+  }
+
+  async readBody(archiveId: string, record: CaptureRecord): Promise<Buffer> {
+    return fs.readFile(path.join(this.getCaptureDir(archiveId), record.bodyFile));
+  }
+
+  async remove(archiveId: string): Promise<void> {
+    await fs.rm(this.getCaptureDir(archiveId), { recursive: true, force: true });
+  }
+
+  private withoutHeaders(headers: Record<string, string>, names: string[]): Record<string, string> {
+    return Object.fromEntries(Object.entries(headers).filter(([name]) => !names.includes(name.toLowerCase())));
+  }
+
+  private getCaptureDir(archiveId: string): string {
+    return path.join(this.baseDir, archiveId);
+  }
+
+  private hashUrl(url: string): string {
+    return crypto.createHash('sha1').update(url).digest('hex');
+  }
+}
@@ -0,0 +1,138 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { CrawledPage, CrawlFrontier } from './CrawlerService.ts';
+
+export type ArchiveStage = 'crawling' | 'extracting' | 'downloading' | 'rewriting';
+
+export interface ArchiveCheckpoint {
+  stage: ArchiveStage;
+  frontier?: CrawlFrontier; // Only while crawling
+  elapsedMs?: number; // Job time used so far, earlier runs included, so a resumed job keeps its time budget
+  updatedAt: string;
+}
+
+/**
+ * Everything needed to pick a job up where it stopped
+ */
+export interface LoadedCheckpoint {
+  checkpoint: ArchiveCheckpoint;
+  pages: CrawledPage[]; // Pages crawled so far (all of them once the crawl stage is done)
+  downloadedAssets: Map<string, string>; // Asset URL -> path inside the archive directory
+}
+
+/**
+ * Persists the progress of running archive jobs under data/checkpoints/<id>/ so they can
+ * be resumed after a restart:
+ * - state.json: current stage and the crawl frontier (rewritten on every update)
+ * - pages.jsonl: crawled pages, appended as each one finishes
+ * - assets.jsonl: downloaded assets, appended as each one is saved
+ */
+export class CheckpointStore {
+  private baseDir = path.join(process.cwd(), 'data', 'checkpoints');
+  private writes = new Map<string, Promise<void>>(); // Serializes writes per archive
+
+  async setStage(archiveId: string, stage: ArchiveStage, frontier?: CrawlFrontier, elapsedMs?: number): Promise<void> {
+    await this.writeState(archiveId, { stage, frontier, elapsedMs, updatedAt: new Date().toISOString() });
+  }
+
+  /**
+   * Record a finished page together with the frontier as it was right after it. Saving a
+   * page again replaces the earlier copy.
+   */
+  async savePage(archiveId: string, crawled: CrawledPage, frontier: CrawlFrontier): Promise<void> {
+    await this.enqueueWrite(archiveId, () =>
+      fs.appendFile(path.join(this.getDir(archiveId), 'pages.jsonl'), JSON.stringify(crawled) + '\n', 'utf8')
+    );
+    await this.setStage(archiveId, 'crawling', frontier, frontier.elapsedMs);
+  }
+
+  /**
+   * Replace the page list with the crawl's final result and move on to the next stage
+   */
+  async finishCrawl(archiveId: string, pages: CrawledPage[], elapsedMs?: number): Promise<void> {
+    await this.enqueueWrite(archiveId, () =>
+      this.writeAtomic(path.join(this.getDir(archiveId), 'pages.jsonl'), pages.map(page => JSON.stringify(page) + '\n').join(''))
+    );
+    await this.setStage(archiveId, 'extracting', undefined, elapsedMs);
+  }
+
+  async saveAsset(archiveId: string, url: string, localPath: string): Promise<void> {
+    await this.enqueueWrite(archiveId, () =>
+      fs.appendFile(path.join(this.getDir(archiveId), 'assets.jsonl'), JSON.stringify({ url, path: localPath }) + '\n', 'utf8')
+    );
+  }
+
+  async load(archiveId: string): Promise<LoadedCheckpoint | null> {
+    const dir = this.getDir(archiveId);
+    try {
+      const checkpoint = JSON.parse(await fs.readFile(path.join(dir, 'state.json'), 'utf8')) as ArchiveCheckpoint;
+
+      // A page is appended again when it changes (e.g. another URL turns out to redirect to it),
+      // or just before a crash that loses its frontier update; the last copy is the current one
+      const pages = new Map<string, CrawledPage>();
+      for (const crawled of await this.readJsonLines<CrawledPage>(path.join(dir, 'pages.jsonl'))) {
+        pages.set(crawled.page.url, crawled);
+      }
+      const assets = await this.readJsonLines<{ url: string; path: string }>(path.join(dir, 'assets.jsonl'));
+
+      return {
+        checkpoint,
+        pages: Array.from(pages.values()),
+        downloadedAssets: new Map(assets.map(asset => [asset.url, asset.path])),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  async remove(archiveId: string): Promise<void> {
+    await this.writes.get(archiveId)?.catch(() => {});
+    this.writes.delete(archiveId);
+    await fs.rm(this.getDir(archiveId), { recursive: true, force: true });
+  }
+
+  private async writeState(archiveId: string, state: ArchiveCheckpoint): Promise<void> {
+    await this.enqueueWrite(archiveId, () =>
+      this.writeAtomic(path.join(this.getDir(archiveId), 'state.json'), JSON.stringify(state))
+    );
+  }
+
+  private enqueueWrite(archiveId: string, write: () => Promise<void>): Promise<void> {
+    const previous = this.writes.get(archiveId) || Promise.resolve();
+    const next = previous.catch(() => {}).then(async () => {
+      await fs.mkdir(this.getDir(archiveId), { recursive: true });
+      await write();
+    });
+    this.writes.set(archiveId, next);
+    return next;
+  }
+
+  // Write to a temp file and rename, so a crash mid-write never leaves a truncated checkpoint
+  private async writeAtomic(filePath: string, content: string): Promise<void> {
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, content, 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  private async readJsonLines<T>(filePath: string): Promise<T[]> {
+    try {
+      const data = await fs.readFile(filePath, 'utf8');
+      return data
+        .split('\n')
+        .filter(line => line.trim())
+        .flatMap(line => {
+          try {
+            return [JSON.parse(line) as T];
+          } catch {
+            return []; // The last line may have been cut off mid-write
+          }
+        });
+    } catch {
+      return [];
+    }
+  }
+
+  private getDir(archiveId: string): string {
+    return path.join(this.baseDir, archiveId);
+  }
+}
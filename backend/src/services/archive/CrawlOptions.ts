@@ -0,0 +1,317 @@
+import { parse as parseHostname } from 'tldts';
+import safeRegex from 'safe-regex2';
+import { UrlNormalizerOptions } from './UrlNormalizer.ts';
+import { PageBehaviorOptions } from './PageBehaviors.ts';
+import { RateLimitOptions } from './HostScheduler.ts';
+import { RetryOptions } from './RetryPolicy.ts';
+import { DocumentOptions } from './LinkedDocuments.ts';
+
+/**
+ * Per-archive crawl settings, validated from the request body and stored with the archive
+ */
+export interface CrawlOptions {
+  maxDepth: number;
+  maxPages: number;
+  maxFrameDepth: number; // How deep nested iframes are captured; 1 is the page's own iframes, 0 captures none
+  timeBudgetSeconds?: number; // Wall-clock limit for crawling + downloading
+  byteBudget?: number; // Limit on bytes fetched for pages + assets
+  scope: 'host' | 'domain'; // Same hostname, or same registrable domain (www.example.com ~ blog.example.com)
+  include: string[]; // Regular expressions; when present a URL must match at least one
+  exclude: string[]; // Regular expressions; a URL matching any of these is never crawled
+  ignoreRobots: boolean; // For sites we own
+  useSitemaps: boolean;
+  pdf: boolean; // Save a PDF rendition of each page alongside its screenshot
+  exploreRoutes: boolean; // Click buttons and other non-link elements to find client-side (pushState) routes
+  shadowDom: boolean; // Snapshot open shadow roots as declarative shadow DOM, for sites built with web components
+  staticSnapshot: boolean; // Also save a frozen, script-free snapshot of each page and frame for static replay
+  urlNormalization?: Partial<UrlNormalizerOptions>; // Overrides for UrlNormalizer's defaults
+  behaviors?: Partial<PageBehaviorOptions>; // Overrides for the page behaviors run before each snapshot
+  rateLimit?: Partial<RateLimitOptions>; // Per-host politeness limits for every request the job makes
+  retries?: Partial<RetryOptions>; // Retries for pages and assets that fail with a transient error
+  documents?: Partial<DocumentOptions>; // Which linked non-HTML files (PDF, DOCX, ZIP, media) are saved, and how big
+}
+
+export const DEFAULT_CRAWL_OPTIONS: CrawlOptions = {
+  maxDepth: 5,
+  maxPages: 25,
+  maxFrameDepth: 3,
+  scope: 'host',
+  include: [],
+  exclude: [],
+  ignoreRobots: false,
+  useSitemaps: true,
+  pdf: false,
+  exploreRoutes: false,
+  shadowDom: false,
+  staticSnapshot: false,
+};
+
+const LIMITS = {
+  maxDepth: { min: 0, max: 1000 },
+  maxPages: { min: 1, max: 10000 },
+  maxFrameDepth: { min: 0, max: 10 },
+  timeBudgetSeconds: { min: 1, max: 7 * 24 * 60 * 60 },
+  byteBudget: { min: 1, max: Number.MAX_SAFE_INTEGER },
+  behaviorTimeoutMs: { min: 100, max: 120000 },
+  rateLimit: {
+    minDelayMs: { min: 0, max: 60000 },
+    maxInFlight: { min: 1, max: 64 },
+    maxRetries: { min: 0, max: 10 },
+    maxBackoffMs: { min: 0, max: 60 * 60 * 1000 },
+  },
+  retries: {
+    maxRetries: { min: 0, max: 10 },
+    baseDelayMs: { min: 0, max: 60000 },
+    maxDelayMs: { min: 0, max: 10 * 60 * 1000 },
+  },
+  documentMaxBytes: { min: 1, max: Number.MAX_SAFE_INTEGER },
+};
+
+// "type/subtype", or a prefix ending in "*" such as "audio/*" or "application/vnd.ms-*"
+const MIME_PATTERN = /^[\w.+-]+\/[\w.+-]*\*?$/;
+
+/**
+ * The scope of a crawl with its include/exclude patterns compiled, built once when the crawl starts
+ */
+export interface CrawlScope {
+  scope: CrawlOptions['scope'];
+  include: RegExp[];
+  exclude: RegExp[];
+}
+
+// Patterns come from unauthenticated requests and run against every discovered link on the
+// crawl's event loop, so long or catastrophically backtracking ones are refused
+const MAX_PATTERN_LENGTH = 500;
+
+/**
+ * Throws a SyntaxError for an invalid regular expression, a RangeError for a refused one
+ */
+function compilePattern(pattern: string): RegExp {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new RangeError(`is longer than ${MAX_PATTERN_LENGTH} characters`);
+  }
+  const regex = new RegExp(pattern);
+  if (!safeRegex(regex)) {
+    throw new RangeError('could backtrack catastrophically (nested quantifiers such as (a+)+)');
+  }
+  return regex;
+}
+
+/**
+ * Compile the scope settings of validated options. Throws for a pattern that is invalid,
+ * too long or unsafe, which validateCrawlOptions already rejects.
+ */
+export function compileCrawlScope(options: Pick<CrawlOptions, 'scope' | 'include' | 'exclude'>): CrawlScope {
+  return {
+    scope: options.scope,
+    include: options.include.map(compilePattern),
+    exclude: options.exclude.map(compilePattern),
+  };
+}
+
+/**
+ * Validate user-supplied crawl options and fill anything missing from the defaults
+ */
+export function validateCrawlOptions(input: unknown, defaults: CrawlOptions = DEFAULT_CRAWL_OPTIONS): { options?: CrawlOptions; errors: string[] } {
+  const errors: string[] = [];
+  if (input === undefined || input === null) {
+    return { options: { ...defaults }, errors };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { errors: ['options must be an object'] };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const options: CrawlOptions = { ...defaults };
+  const known = new Set(Object.keys(DEFAULT_CRAWL_OPTIONS).concat('timeBudgetSeconds', 'byteBudget', 'urlNormalization', 'behaviors', 'rateLimit', 'retries', 'documents'));
+
+  for (const key of Object.keys(raw)) {
+    if (!known.has(key)) {
+      errors.push(`Unknown option "${key}"`);
+    }
+  }
+
+  for (const key of ['maxDepth', 'maxPages', 'maxFrameDepth', 'timeBudgetSeconds', 'byteBudget'] as const) {
+    if (raw[key] === undefined) continue;
+    const value = raw[key];
+    const { min, max } = LIMITS[key];
+    if (value === null && (key === 'timeBudgetSeconds' || key === 'byteBudget')) {
+      delete options[key]; // Explicitly clear a budget inherited from a previous version
+    } else if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      errors.push(`${key} must be an integer between ${min} and ${max}`);
+    } else {
+      options[key] = value;
+    }
+  }
+
+  if (raw.scope !== undefined) {
+    if (raw.scope !== 'host' && raw.scope !== 'domain') {
+      errors.push('scope must be "host" or "domain"');
+    } else {
+      options.scope = raw.scope;
+    }
+  }
+
+  for (const key of ['include', 'exclude'] as const) {
+    if (raw[key] === undefined) continue;
+    const value = raw[key];
+    if (!Array.isArray(value) || !value.every(pattern => typeof pattern === 'string')) {
+      errors.push(`${key} must be an array of regular expression strings`);
+      continue;
+    }
+    for (const pattern of value) {
+      try {
+        compilePattern(pattern);
+      } catch (error) {
+        errors.push(error instanceof RangeError
+          ? `${key} pattern ${error.message}: ${pattern.slice(0, 100)}`
+          : `${key} pattern is not a valid regular expression: ${pattern}`);
+      }
+    }
+    options[key] = value;
+  }
+
+  for (const key of ['ignoreRobots', 'useSitemaps', 'pdf', 'exploreRoutes', 'shadowDom', 'staticSnapshot'] as const) {
+    if (raw[key] === undefined) continue;
+    if (typeof raw[key] !== 'boolean') {
+      errors.push(`${key} must be a boolean`);
+    } else {
+      options[key] = raw[key] as boolean;
+    }
+  }
+
+  if (raw.urlNormalization !== undefined) {
+    const normalization = raw.urlNormalization as Record<string, unknown>;
+    if (typeof normalization !== 'object' || normalization === null || Array.isArray(normalization)) {
+      errors.push('urlNormalization must be an object');
+    } else {
+      for (const key of Object.keys(normalization)) {
+        if (key === 'trackingParams') {
+          const params = normalization[key];
+          if (!Array.isArray(params) || !params.every(param => typeof param === 'string')) {
+            errors.push('urlNormalization.trackingParams must be an array of strings');
+          }
+        } else if (['stripFragment', 'sortQuery', 'stripTrailingSlash'].includes(key)) {
+          if (typeof normalization[key] !== 'boolean') {
+            errors.push(`urlNormalization.${key} must be a boolean`);
+          }
+        } else {
+          errors.push(`Unknown option "urlNormalization.${key}"`);
+        }
+      }
+      options.urlNormalization = { ...options.urlNormalization, ...(normalization as Partial<UrlNormalizerOptions>) };
+    }
+  }
+
+  if (raw.behaviors !== undefined) {
+    const behaviors = raw.behaviors as Record<string, unknown>;
+    if (typeof behaviors !== 'object' || behaviors === null || Array.isArray(behaviors)) {
+      errors.push('behaviors must be an object');
+    } else {
+      for (const key of Object.keys(behaviors)) {
+        if (key === 'timeoutMs') {
+          const { min, max } = LIMITS.behaviorTimeoutMs;
+          const value = behaviors[key];
+          if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+            errors.push(`behaviors.timeoutMs must be an integer between ${min} and ${max}`);
+          }
+        } else if (['autoScroll', 'hoverMenus', 'expandDetails'].includes(key)) {
+          if (typeof behaviors[key] !== 'boolean') {
+            errors.push(`behaviors.${key} must be a boolean`);
+          }
+        } else {
+          errors.push(`Unknown option "behaviors.${key}"`);
+        }
+      }
+      options.behaviors = { ...options.behaviors, ...(behaviors as Partial<PageBehaviorOptions>) };
+    }
+  }
+
+  for (const group of ['rateLimit', 'retries'] as const) {
+    if (raw[group] === undefined) continue;
+    const values = raw[group] as Record<string, unknown>;
+    if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+      errors.push(`${group} must be an object`);
+      continue;
+    }
+    const limits: Record<string, { min: number; max: number }> = LIMITS[group];
+    for (const key of Object.keys(values)) {
+      if (!(key in limits)) {
+        errors.push(`Unknown option "${group}.${key}"`);
+        continue;
+      }
+      const { min, max } = limits[key];
+      const value = values[key];
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+        errors.push(`${group}.${key} must be an integer between ${min} and ${max}`);
+      }
+    }
+    options[group] = { ...options[group], ...values };
+  }
+
+  if (raw.documents !== undefined) {
+    const documents = raw.documents as Record<string, unknown>;
+    if (typeof documents !== 'object' || documents === null || Array.isArray(documents)) {
+      errors.push('documents must be an object');
+    } else {
+      for (const key of Object.keys(documents)) {
+        if (key === 'maxBytes') {
+          const { min, max } = LIMITS.documentMaxBytes;
+          const value = documents[key];
+          if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+            errors.push(`documents.maxBytes must be an integer between ${min} and ${max}`);
+          }
+        } else if (key === 'mimeTypes') {
+          const types = documents[key];
+          if (!Array.isArray(types) || !types.every(type => typeof type === 'string' && MIME_PATTERN.test(type))) {
+            errors.push('documents.mimeTypes must be an array of MIME types, e.g. "application/pdf" or "video/*"');
+          }
+        } else {
+          errors.push(`Unknown option "documents.${key}"`);
+        }
+      }
+      options.documents = { ...options.documents, ...(documents as Partial<DocumentOptions>) };
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { options, errors };
+}
+
+/**
+ * The registrable domain (eTLD+1) of a hostname by the public suffix list, private suffixes
+ * such as github.io and vercel.app included. Hosts whose suffix isn't on the list, IP
+ * addresses and public suffixes themselves are their own registrable domain, so domain
+ * scope falls back to same-host for them.
+ */
+export function getRegistrableDomain(hostname: string): string {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  const parsed = parseHostname(host, { allowPrivateDomains: true });
+  return (parsed.isIcann || parsed.isPrivate) && parsed.domain ? parsed.domain : host;
+}
+
+/**
+ * Whether a URL is in the crawl's scope and passes its include/exclude patterns
+ */
+export function isUrlInScope(startUrl: string, url: string, options: CrawlScope): boolean {
+  try {
+    const start = new URL(startUrl);
+    const target = new URL(url);
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      return false;
+    }
+
+    const sameScope = options.scope === 'domain'
+      ? getRegistrableDomain(start.hostname) === getRegistrableDomain(target.hostname)
+      : start.hostname === target.hostname;
+    if (!sameScope) {
+      return false;
+    }
+
+    if (options.include.length > 0 && !options.include.some(pattern => pattern.test(url))) {
+      return false;
+    }
+    return !options.exclude.some(pattern => pattern.test(url));
+  } catch {
+    return false;
+  }
+}
@@ -1,94 +1,770 @@
-import { chromium } from 'playwright';
+import { chromium, Frame, Page, Request, Response, Route } from 'playwright';
+import fs from 'fs/promises';
+import path from 'path';
+import { CapturedResponse, RedirectHop } from './CaptureStore.ts';
+import { RobotsService } from './RobotsService.ts';
+import { SitemapService } from './SitemapService.ts';
+import { CrawlOptions, CrawlScope, DEFAULT_CRAWL_OPTIONS, compileCrawlScope, isUrlInScope } from './CrawlOptions.ts';
+import { UrlNormalizer, createUrlHash } from './UrlNormalizer.ts';
+import { BehaviorLog, PageBehaviorOptions, PageBehaviors } from './PageBehaviors.ts';
+import { StorageState } from './AuthService.ts';
+import { HostScheduler } from './HostScheduler.ts';
+import { RetryPolicy, HttpStatusError, RetriesExhaustedError, FailureReason, describeFailure } from './RetryPolicy.ts';
+import { DEFAULT_DOCUMENT_OPTIONS, DocumentOptions, LinkedDocumentError, isAllowedDocumentType, isHtmlContentType } from './LinkedDocuments.ts';
+import { RouteExplorer } from './RouteExplorer.ts';
+import { CaptureProfile, toContextOptions } from './CaptureProfiles.ts';
+import { ShadowDomSerializer } from './ShadowDomSerializer.ts';
+
+// Longest a subresource holds its host's slot while waiting for its response
+const SUBRESOURCE_SLOT_MS = 10000;
+
+export type PageDiscoverySource = 'start' | 'link' | 'sitemap' | 'route';
 
 export interface PageData {
-  url: string;
+  url: string; // Where the page ended up, after any redirects
   html: string;
+  staticHtml?: string; // Frozen snapshot for replay without scripts (staticSnapshot); absent when off or when it couldn't be taken
   title: string;
   links: string[];
   path: string; // The relative path where this page should be saved
+  response?: CapturedResponse; // The original document response, before any rewriting
+  discoveredVia?: PageDiscoverySource;
+  urlVariants?: string[]; // Other spellings of this URL that were found and normalized to it
+  behaviors?: BehaviorLog[]; // What was done to the page (scrolling, hovering, ...) before the snapshot
+  screenshot?: string; // Full-page PNG, relative to the archive root
+  pdf?: string; // PDF rendition, relative to the archive root
+  redirects?: RedirectHop[]; // HTTP redirects that ended at this page, from every URL that led here
+  routes?: string[]; // Client-side routes reached by clicking around the page (exploreRoutes)
+  frames?: FrameData[]; // Documents of the page's iframes, nested ones included, in document order
+}
+
+/**
+ * The rendered document of an iframe, saved as its own file and pointed to by the iframe's src
+ */
+export interface FrameData {
+  url: string; // Where the frame's document ended up, after any redirects
+  src?: string; // The iframe's src attribute, resolved, when it differs from url
+  html: string;
+  staticHtml?: string;
+  path: string; // Under _frames/<host>/, so frames from other sites don't collide with pages
+  depth: number; // 1 for the page's own iframes
+}
+
+interface QueuedUrl {
+  url: string; // As the site linked it, which is what gets fetched
+  depth: number;
+  via: PageDiscoverySource;
+}
+
+// The normalized URL only decides which spellings are the same page
+type FrontierEntry = QueuedUrl & { key: string };
+
+/**
+ * A crawled page and its position in discovery order
+ */
+export interface CrawledPage {
+  sequence: number;
+  page: PageData;
+}
+
+/**
+ * Snapshot of a crawl in progress, enough to continue it in a new process. Pages that
+ * were still loading are back in the queue and not in visited.
+ */
+export interface CrawlFrontier {
+  queue: QueuedUrl[];
+  visited: string[];
+  variants: Record<string, string[]>;
+  sequence: number;
+  bytesFetched: number;
+  capturedUrls: string[]; // Subresources already handed to onResponse
+  elapsedMs?: number; // Crawl time used so far, earlier runs included; counted against timeBudgetSeconds (absent in older checkpoints)
+}
+
+/**
+ * Receives every subresource the browser loaded for a page (CSS, JS, images, fonts, XHR/fetch, lazy chunks)
+ */
+export type ResponseSink = (response: CapturedResponse, pageUrl: string) => Promise<void>;
+
+export interface CrawlPageOptions {
+  onResponse?: ResponseSink;
+  scheduler?: HostScheduler; // Rate-limits the page load and every subresource it makes; unthrottled when absent
+  behaviors?: Partial<PageBehaviorOptions>; // Defaults to every behavior enabled
+  renditionsDir?: string; // Where to save the screenshot (and PDF) next to the page; none are taken without it
+  pdf?: boolean;
+  exploreRoutes?: boolean; // Look for pushState routes in a separate, sandboxed browser context after the snapshot
+  isAllowed?: (url: string) => Promise<boolean>; // robots.txt, for the page loads route exploration makes
+  maxFrameDepth?: number; // Nested iframe levels to capture; CrawlOptions' default when absent
+  shadowDom?: boolean; // Serialize open shadow roots into the snapshot (ShadowDomSerializer)
+  staticSnapshot?: boolean; // Also take a frozen snapshot of the page and its frames (staticHtml)
+  documents?: DocumentOptions; // Link targets of these types are documents, not pages; other non-HTML types are rendered as pages
+  normalizer?: UrlNormalizer; // Pages are stored under the path of their normalized URL, so every spelling maps to one file
+  profile?: CaptureProfile; // Device and locale of the browser crawlPage launches when not given a tab, and of the exploration context
+  storageState?: StorageState; // Session the exploration context starts with
+}
+
+/**
+ * Anything not given falls back to the service's limits and same-host crawling
+ */
+export interface CrawlWebsiteOptions extends Partial<CrawlOptions> {
+  storageState?: StorageState; // Session (cookies + localStorage) every page is loaded with
+  profile?: CaptureProfile; // Device and locale every page is rendered as; Playwright's defaults when absent
+  renditionsDir?: string;
+  scheduler?: HostScheduler; // Shared with the asset fetches of the same job; defaults to one built from rateLimit
+  onResponse?: ResponseSink;
+  onSkip?: (url: string, reason: string) => void;
+  onBudgetExhausted?: (budget: 'time' | 'bytes') => void;
+  onPageCrawled?: (crawled: CrawledPage, frontier: CrawlFrontier) => Promise<void>; // For checkpointing
+  shouldStop?: () => boolean; // Polled before starting each page; in-flight pages still finish
+  retryPolicy?: RetryPolicy; // Shared with the job's downloads; built from options.retries when absent
+  onPageFailed?: (url: string, failure: FailureReason, attempts: number) => void | Promise<void>;
+  // A crawled link that is a document (PDF, ZIP, media, ...), with its response when the browser's navigation got one;
+  // returns the bytes it fetched itself, counted towards byteBudget
+  onDocument?: (url: string, response?: CapturedResponse) => Promise<number | void>;
+  resumeFrom?: { frontier: CrawlFrontier; pages: CrawledPage[] };
 }
 
 export class CrawlerService {
-  private visitedUrls = new Set<string>();
   private maxDepth = 5;  // Reasonable default depth
   private maxPages = 25; // Reasonable default page count
+  private concurrency = 4; // Pages crawled in parallel per host unless overridden
+  private hostConcurrency: Record<string, number> = {};
+  private robots = new RobotsService();
+  private sitemaps = new SitemapService();
 
-  async crawlWebsite(startUrl: string): Promise<PageData[]> {
+  async crawlWebsite(startUrl: string, options: CrawlWebsiteOptions = {}): Promise<PageData[]> {
+    const maxDepth = options.maxDepth ?? this.maxDepth;
+    const maxPages = options.maxPages ?? this.maxPages;
+    const scope = compileCrawlScope({ scope: options.scope || 'host', include: options.include || [], exclude: options.exclude || [] });
+    const resumeFrom = options.resumeFrom;
+    // A resumed crawl only gets what is left of its time budget
+    const crawlStartedAt = Date.now();
+    const previousElapsedMs = resumeFrom?.frontier.elapsedMs ?? 0;
+    const deadline = options.timeBudgetSeconds ? crawlStartedAt + options.timeBudgetSeconds * 1000 - previousElapsedMs : undefined;
+    let bytesFetched = resumeFrom?.frontier.bytesFetched ?? 0;
+    let exhaustedBudget: 'time' | 'bytes' | null = null;
+    let stopRequested = false;
+    
     console.log(`🕷️ Starting website crawl for: ${startUrl}`);
-    console.log(`⚙️ Crawler settings: maxDepth=${this.maxDepth}, maxPages=${this.maxPages}`);
+    console.log(`⚙️ Crawler settings: maxDepth=${maxDepth}, maxPages=${maxPages}, scope=${scope.scope}, concurrency=${this.getHostConcurrency(startUrl)}, robots.txt=${options.ignoreRobots ? 'ignored' : 'respected'}`);
     
-    this.visitedUrls.clear();
-    const pagesData: PageData[] = [];
-    const urlQueue = [{ url: startUrl, depth: 0 }];
+    // Crawl state is local so concurrent crawls on the same service don't interfere
+    const normalizer = new UrlNormalizer(options.urlNormalization);
+    const scheduler = options.scheduler || new HostScheduler(options.rateLimit);
+    const retryPolicy = options.retryPolicy || new RetryPolicy(options.retries);
+    const visitedUrls = new Set<string>(resumeFrom?.frontier.visited); // Normalized URLs
+    const urlVariants = new Map<string, Set<string>>( // Normalized URL -> original spellings
+      Object.entries(resumeFrom?.frontier.variants || {}).map(([url, variants]) => [url, new Set(variants)])
+    );
+    const results: CrawledPage[] = [...(resumeFrom?.pages || [])];
+    const crawledKeys = new Set(results.map(({ page }) => normalizer.normalize(page.url)));
+    const urlQueue: FrontierEntry[] = (resumeFrom?.frontier.queue || [])
+      .map(queued => ({ ...queued, key: normalizer.normalize(queued.url) }))
+      .filter(({ key }) => !crawledKeys.has(key));
+    const inFlightUrls = new Map<string, FrontierEntry>(); // By key
+    const pendingRedirects = new Map<string, RedirectHop[]>(); // Normalized URL still being crawled -> hops that led to it
     
-    while (urlQueue.length > 0 && pagesData.length < this.maxPages) {
-      const { url, depth } = urlQueue.shift()!;
-      
-      if (this.visitedUrls.has(url) || depth > this.maxDepth) {
-        continue;
+    // Servers don't all treat /docs/ and /docs (or reordered queries) alike, so the page is
+    // fetched as first linked; later spellings are only recorded as variants of it
+    const enqueue = (rawUrl: string, depth: number, via: PageDiscoverySource) => {
+      const key = normalizer.normalize(rawUrl);
+      if (key !== rawUrl) {
+        if (!urlVariants.has(key)) urlVariants.set(key, new Set());
+        urlVariants.get(key)!.add(rawUrl);
       }
+      if (!visitedUrls.has(key)) {
+        urlQueue.push({ key, url: rawUrl, depth, via });
+      }
+    };
+    
+    const snapshotFrontier = (): CrawlFrontier => ({
+      queue: [...inFlightUrls.values(), ...urlQueue],
+      visited: Array.from(visitedUrls).filter(key => !inFlightUrls.has(key)),
+      variants: Object.fromEntries(Array.from(urlVariants, ([url, variants]) => [url, Array.from(variants)])),
+      sequence,
+      bytesFetched,
+      capturedUrls: Array.from(capturedUrls),
+      elapsedMs: previousElapsedMs + Date.now() - crawlStartedAt,
+    });
+    
+    if (resumeFrom) {
+      console.log(`♻️ Resuming crawl: ${results.length} pages done, ${urlQueue.length} queued`);
+    } else {
+      enqueue(startUrl, 0, 'start');
+    }
+    
+    // Pages nothing links to are only reachable through the sitemap
+    if (options.useSitemaps !== false && !resumeFrom) {
+      const sitemapUrls = await this.discoverSitemapUrls(startUrl, maxPages, scope, scheduler, retryPolicy);
+      sitemapUrls.forEach(url => enqueue(url, 1, 'sitemap'));
+    }
+    
+    const capturedUrls = new Set<string>(resumeFrom?.frontier.capturedUrls);
+    let sequence = resumeFrom?.frontier.sequence ?? 0;
+    
+    // One browser per crawl; each in-flight page gets a tab from the pool
+    const browser = await chromium.launch();
+    // Everything from here on can throw, and must not leave the browser running
+    try {
+      const context = await browser.newContext({ ...(options.profile && toContextOptions(options.profile)), storageState: options.storageState });
+      const idlePages: Page[] = [await context.newPage()];
+      // robots.txt is matched against what the browser actually sends
+      const userAgent = options.profile?.userAgent ?? await idlePages[0].evaluate(() => navigator.userAgent);
+      const inFlight = new Set<Promise<void>>();
+      const activeByHost = new Map<string, number>();
+      const documents = { ...DEFAULT_DOCUMENT_OPTIONS, ...options.documents };
       
-      console.log(`🔍 Crawling page ${pagesData.length + 1}/${this.maxPages}: ${url} (depth: ${depth})`);
+      // Most subresources are shared between pages; only hand each one to the sink once
+      const onResponse: ResponseSink | undefined = options.onResponse && (async (captured, pageUrl) => {
+        if (capturedUrls.has(captured.url)) return;
+        capturedUrls.add(captured.url);
+        bytesFetched += captured.body.length;
+        await options.onResponse!(captured, pageUrl);
+      });
       
-      try {
-        const pageStartTime = Date.now();
-        const pageData = await this.crawlPage(url);
-        const pageDuration = Date.now() - pageStartTime;
-        console.log(`   ✅ Crawled in ${pageDuration}ms - found ${pageData.links.length} links`);
+      const crawlOne = async ({ key, url, depth, via }: FrontierEntry, order: number) => {
+        if (!options.ignoreRobots) {
+          const robots = await this.robots.getRobots(url, scheduler, retryPolicy);
+          if (robots.isUnreachable) {
+            console.log(`🤖 Skipping ${url}: robots.txt unreachable`);
+            options.onSkip?.(url, 'robots.txt unreachable');
+            return;
+          }
+          if (!robots.isAllowed(url, userAgent)) {
+            console.log(`🤖 Skipping ${url}: disallowed by robots.txt`);
+            options.onSkip?.(url, 'Disallowed by robots.txt');
+            return;
+          }
+          scheduler.setMinDelay(url, (robots.getCrawlDelay(userAgent) || 0) * 1000);
+        }
         
-        this.visitedUrls.add(url);
-        pagesData.push(pageData); // Store the complete page data (HTML + links)
+        console.log(`🔍 Crawling page ${order + 1}/${maxPages}: ${url} (depth: ${depth}, via: ${via})`);
         
-        // Add internal links to queue for further crawling
-        if (depth < this.maxDepth) {
-          pageData.links.forEach(link => {
-            if (!this.visitedUrls.has(link) && this.isSameDomain(startUrl, link)) {
-              urlQueue.push({ url: link, depth: depth + 1 });
+        let page = idlePages.pop() || await context.newPage();
+        try {
+          const pageStartTime = Date.now();
+          const pageData = await retryPolicy.run(url, async () => {
+            if (page.isClosed()) page = await context.newPage();
+            const data = await this.crawlPage(url, page, {
+              onResponse,
+              scheduler,
+              behaviors: options.behaviors,
+              renditionsDir: options.renditionsDir,
+              pdf: options.pdf,
+              exploreRoutes: options.exploreRoutes,
+              isAllowed: options.ignoreRobots ? undefined : target => this.robots.isAllowed(target, scheduler, userAgent, retryPolicy),
+              profile: options.profile,
+              storageState: options.storageState,
+              maxFrameDepth: options.maxFrameDepth,
+              shadowDom: options.shadowDom,
+              staticSnapshot: options.staticSnapshot,
+              documents,
+              normalizer,
+            });
+            // Server errors are retried; 4xx pages are archived as the server sent them
+            if (data.response && data.response.status >= 500) {
+              throw new HttpStatusError(data.response.status, data.response.statusText);
             }
+            return data;
+          });
+          const pageDuration = Date.now() - pageStartTime;
+          console.log(`   ✅ Crawled in ${pageDuration}ms - found ${pageData.links.length} links`);
+        
+          bytesFetched += pageData.response?.body.length ?? Buffer.byteLength(pageData.html);
+        
+          // A redirect target is the page itself; don't queue it again, or keep a second copy of it
+          const finalUrl = normalizer.normalize(pageData.url);
+          if (finalUrl !== key) {
+            // Off-site targets would be stored over the site's own paths (e.g. index.html)
+            if (via !== 'start' && !isUrlInScope(startUrl, finalUrl, scope)) {
+              console.log(`   ↪️ ${url} redirects out of scope to ${pageData.url}, skipping`);
+              options.onSkip?.(url, `Redirects out of scope to ${pageData.url}`);
+              idlePages.push(page);
+              return;
+            }
+            // Claimed by an earlier page or another worker; its redirects are merged into that page
+            if (visitedUrls.has(finalUrl)) {
+              const existing = results.find(({ page: crawledPage }) => normalizer.normalize(crawledPage.url) === finalUrl);
+              if (existing) {
+                existing.page.redirects = [...(existing.page.redirects || []), ...(pageData.redirects || [])];
+                inFlightUrls.delete(key);
+                await options.onPageCrawled?.(existing, snapshotFrontier());
+              } else {
+                pendingRedirects.set(finalUrl, [...(pendingRedirects.get(finalUrl) || []), ...(pageData.redirects || [])]);
+              }
+              console.log(`   ↪️ ${url} redirects to ${pageData.url}, which is already archived`);
+              idlePages.push(page);
+              return;
+            }
+            visitedUrls.add(finalUrl);
+          }
+          // Other URLs that redirected here while this page was being crawled
+          if (pendingRedirects.has(finalUrl)) {
+            pageData.redirects = [...(pageData.redirects || []), ...pendingRedirects.get(finalUrl)!];
+            pendingRedirects.delete(finalUrl);
+          }
+          pageData.discoveredVia = via;
+          const crawled = { sequence: order, page: pageData };
+          results.push(crawled); // Store the complete page data (HTML + links)
+        
+          // Add internal links to queue for further crawling, and client-side routes, each to be snapshotted as its own page
+          if (depth < maxDepth) {
+            pageData.links.forEach(link => {
+              if (isUrlInScope(startUrl, link, scope)) {
+                enqueue(link, depth + 1, 'link');
+              }
+            });
+            (pageData.routes || []).forEach(route => {
+              if (isUrlInScope(startUrl, route, scope)) {
+                enqueue(route, depth + 1, 'route');
+              }
+            });
+          }
+        
+          inFlightUrls.delete(key);
+          await options.onPageCrawled?.(crawled, snapshotFrontier());
+          // Only now, so a failed callback below can't close a tab another URL already took
+          idlePages.push(page);
+        } catch (error) {
+          const lastError = error instanceof RetriesExhaustedError ? error.lastError : error;
+          if (lastError instanceof LinkedDocumentError) {
+            idlePages.push(page);
+            console.log(`   📎 ${url} is a document${lastError.contentType ? ` (${lastError.contentType})` : ''}, not a page`);
+            bytesFetched += lastError.response?.body.length ?? 0;
+            bytesFetched += (await options.onDocument?.(url, lastError.response)) || 0;
+            return;
+          }
+        
+          // Don't hand a tab that failed mid-navigation to the next URL
+          await page.close().catch(() => {});
+          const failure = describeFailure(error);
+          console.warn(`❌ Failed to crawl ${url}: ${failure.message}`);
+          try {
+            await options.onPageFailed?.(url, failure, error instanceof RetriesExhaustedError ? error.attempts : 1);
+          } catch (callbackError) {
+            // Failing to record a failure mustn't take the rest of the crawl down with it
+            console.warn(`⚠️ Could not record the failure of ${url}:`, callbackError instanceof Error ? callbackError.message : callbackError);
+          }
+        }
+      };
+      
+      while (true) {
+        if (!exhaustedBudget) {
+          exhaustedBudget = deadline && Date.now() > deadline ? 'time'
+            : options.byteBudget && bytesFetched >= options.byteBudget ? 'bytes'
+            : null;
+          if (exhaustedBudget) {
+            console.log(`⏹️ Crawl ${exhaustedBudget} budget exhausted, finishing in-flight pages`);
+            options.onBudgetExhausted?.(exhaustedBudget);
+          }
+        }
+        if (!stopRequested && options.shouldStop?.()) {
+          stopRequested = true;
+          console.log(`⏹️ Crawl stop requested, finishing ${inFlight.size} in-flight pages`);
+        }
+        
+        // Start as many queued URLs as the page budget and per-host limits allow
+        for (let i = 0; !exhaustedBudget && !stopRequested && i < urlQueue.length && results.length + inFlight.size < maxPages;) {
+          const entry = urlQueue[i];
+          const { key, url, depth } = entry;
+          
+          if (visitedUrls.has(key) || depth > maxDepth) {
+            urlQueue.splice(i, 1);
+            continue;
+          }
+          
+          const host = new URL(url).host;
+          const active = activeByHost.get(host) || 0;
+          if (active >= this.getHostConcurrency(url)) {
+            i++;
+            continue;
+          }
+          
+          // Claim the URL before any await so no other worker picks it up
+          urlQueue.splice(i, 1);
+          visitedUrls.add(key);
+          inFlightUrls.set(key, entry);
+          activeByHost.set(host, active + 1);
+          
+          const task: Promise<void> = crawlOne(entry, sequence++).finally(() => {
+            inFlightUrls.delete(key);
+            activeByHost.set(host, (activeByHost.get(host) || 1) - 1);
+            inFlight.delete(task);
           });
+          inFlight.add(task);
         }
-      } catch (error) {
-        console.warn(`Failed to crawl ${url}:`, error);
+        
+        // Nothing running and nothing startable means the crawl is done
+        if (inFlight.size === 0) {
+          break;
+        }
+        await Promise.race(inFlight);
       }
+    } finally {
+      await browser.close();
     }
     
-    return pagesData;
+    // Keep discovery order regardless of which page finished first
+    return results
+      .sort((a, b) => a.sequence - b.sequence)
+      .map(({ page }) => {
+        // Spellings of the URLs that redirected here count as variants of the page too
+        const pageUrls = [page.url, ...(page.redirects || []).map(hop => hop.url)];
+        const variants = new Set(pageUrls.flatMap(pageUrl => Array.from(urlVariants.get(normalizer.normalize(pageUrl)) || [])));
+        return { ...page, urlVariants: Array.from(variants) };
+      });
   }
 
 
-  async crawlPage(url: string): Promise<PageData> {
-    const browser = await chromium.launch();
-    const page = await browser.newPage();
+  /**
+   * Crawl a single page. Uses the given tab when called from crawlWebsite, otherwise
+   * launches (and closes) a browser of its own. Page behaviors run after load and before
+   * the snapshot. When onResponse is given, every response the browser receives while
+   * loading the page and running the behaviors is passed to it. Throws LinkedDocumentError
+   * when the URL turns out to be a document (one of options.documents' types, or a download),
+   * carrying the response the navigation already got unless it is declared bigger than
+   * documents.maxBytes.
+   */
+  async crawlPage(url: string, page?: Page, options: CrawlPageOptions = {}): Promise<PageData> {
+    if (!page) {
+      const browser = await chromium.launch();
+      try {
+        return await this.crawlPage(url, await browser.newPage(options.profile && toContextOptions(options.profile)), options);
+      } finally {
+        await browser.close();
+      }
+    }
+    
+    const { onResponse, scheduler } = options;
+    const pendingCaptures: Promise<void>[] = [];
+    const responseListener = (networkResponse: Response) => {
+      if (onResponse) {
+        pendingCaptures.push(this.captureSubresource(networkResponse, page, url, onResponse));
+      }
+    };
+    const throttle = scheduler && this.throttleSubresources(page, scheduler);
     
+    page.on('response', responseListener);
+    let navigationResponse: Response | null;
+    let behaviors: BehaviorLog[];
     try {
-      await page.goto(url, { waitUntil: 'networkidle', timeout: 60000 });
-      
-      const html = await page.content();
-      const title = await page.title();
-      
-      // Extract all internal links
-      const links = await page.evaluate((baseUrl) => {
-        const anchors = Array.from(document.querySelectorAll('a[href]'));
-        return anchors
-          .map(a => a.getAttribute('href'))
-          .filter(href => href)
-          .map(href => new URL(href!, baseUrl).href);
-      }, url);
-      
-      const path = this.generatePagePath(url);
-      return { url, html, title, links, path };
+      await throttle?.start();
+      // The page's slot is held until its document arrives, not while it renders, or its own subresources couldn't get one
+      const navigate = () => page.goto(url, { waitUntil: 'commit', timeout: 60000 });
+      navigationResponse = await (scheduler
+        ? scheduler.request(url, navigate, response => ({ status: response?.status() ?? 200, retryAfter: response?.headers()['retry-after'] }))
+        : navigate()
+      ).catch(error => {
+        // Chromium downloads what it can't display (PDF, ZIP, ...) instead of navigating to it
+        throw /Download is starting/i.test(error?.message || '') ? new LinkedDocumentError(url) : error;
+      });
+      const contentType = navigationResponse?.headers()['content-type'] || '';
+      if (navigationResponse && !isHtmlContentType(contentType) && options.documents && isAllowedDocumentType(contentType, options.documents.mimeTypes)) {
+        const tooLarge = Number(navigationResponse.headers()['content-length']) > options.documents.maxBytes;
+        throw new LinkedDocumentError(url, contentType, tooLarge ? undefined : await this.captureNavigation(navigationResponse));
+      }
+      await page.waitForLoadState('networkidle', { timeout: 60000 });
+      behaviors = await new PageBehaviors(options.behaviors).run(page);
     } finally {
-      await browser.close();
+      page.off('response', responseListener);
+      await throttle?.stop();
+      // Bodies have to be read before the tab moves on to the next URL
+      await Promise.allSettled(pendingCaptures);
     }
+    
+    // Store the page under the URL it was served from, so relative links resolve against it
+    const finalUrl = navigationResponse?.url() ?? url;
+    const response = navigationResponse ? await this.captureNavigation(navigationResponse) : undefined;
+    const redirects = response?.redirects || [];
+    if (redirects.length > 0) {
+      console.log(`   ↪️ ${url} redirected to ${finalUrl} (${redirects.map(hop => hop.status ?? '?').join(' → ')})`);
+    }
+    
+    const html = await this.serializeDocument(page, options.shadowDom);
+    const staticHtml = options.staticSnapshot ? await this.serializeFrozen(page) : undefined;
+    const title = await page.title();
+    const frames = await this.captureFrames(page, options.maxFrameDepth ?? DEFAULT_CRAWL_OPTIONS.maxFrameDepth, options.shadowDom, options.staticSnapshot);
+    
+    // Extract all internal links
+    const links = await page.evaluate((baseUrl) => {
+      const anchors = Array.from(document.querySelectorAll('a[href]'));
+      return anchors
+        .map(a => a.getAttribute('href'))
+        .filter(href => href)
+        .map(href => new URL(href!, baseUrl).href);
+    }, finalUrl);
+    
+    const pagePath = this.generatePagePath(options.normalizer ? options.normalizer.normalize(finalUrl) : finalUrl);
+    const renditions = options.renditionsDir ? await this.saveRenditions(page, pagePath, options.renditionsDir, options.pdf) : {};
+    const routes = options.exploreRoutes ? await this.exploreRoutes(page, finalUrl, options) : [];
+    return {
+      url: finalUrl, html, staticHtml, title, links, path: pagePath, response, behaviors, ...renditions,
+      ...(redirects.length > 0 ? { redirects } : {}),
+      ...(routes.length > 0 ? { routes } : {}),
+      ...(frames.length > 0 ? { frames } : {}),
+    };
   }
 
-  private isSameDomain(url1: string, url2: string): boolean {
+  /**
+   * Route the subresources a page loads through the job's scheduler: each waits for a slot on
+   * its host and holds it until its response (or failure) arrives, at most SUBRESOURCE_SLOT_MS
+   * so streaming and long-polling requests don't block the host. The page's own navigation
+   * is scheduled by crawlPage. A 429 or 503 pauses the host for everything else in the job.
+   */
+  private throttleSubresources(page: Page, scheduler: HostScheduler): { start: () => Promise<void>; stop: () => Promise<void> } {
+    const releases = new Map<Request, () => void>();
+    const settle = (request: Request) => {
+      releases.get(request)?.();
+      releases.delete(request);
+    };
+    const isPageNavigation = (request: Request) => request.isNavigationRequest() && request.frame() === page.mainFrame();
+    const onResponse = (response: Response) => {
+      if (isPageNavigation(response.request())) return;
+      scheduler.reportOutcome(response.url(), { status: response.status(), retryAfter: response.headers()['retry-after'] });
+      settle(response.request());
+    };
+    const handler = async (route: Route) => {
+      const request = route.request();
+      if (!/^https?:/i.test(request.url()) || isPageNavigation(request)) {
+        return route.continue();
+      }
+      const release = await scheduler.acquireSlot(request.url());
+      releases.set(request, release);
+      setTimeout(() => settle(request), SUBRESOURCE_SLOT_MS).unref();
+      await route.continue().catch(() => settle(request)); // The page may have moved on meanwhile
+    };
+    
+    return {
+      start: async () => {
+        page.on('response', onResponse);
+        page.on('requestfailed', settle);
+        await page.route('**/*', handler);
+      },
+      stop: async () => {
+        await page.unroute('**/*', handler).catch(() => {});
+        page.off('response', onResponse);
+        page.off('requestfailed', settle);
+        Array.from(releases.keys()).forEach(settle);
+      },
+    };
+  }
+
+  /**
+   * The rendered HTML of a page or frame. With shadowDom, open shadow roots are included as
+   * declarative shadow DOM; if that fails, the plain serialization is used.
+   */
+  private async serializeDocument(target: Page | Frame, shadowDom?: boolean): Promise<string> {
+    if (shadowDom) {
+      try {
+        const snapshot = await new ShadowDomSerializer().serialize(target);
+        if (snapshot.shadowRoots > 0 || snapshot.adoptedStyleSheets > 0) {
+          console.log(`   🌑 Serialized ${snapshot.shadowRoots} shadow roots and ${snapshot.adoptedStyleSheets} adopted stylesheets of ${target.url()}`);
+        }
+        return snapshot.html;
+      } catch (error) {
+        console.warn(`🌑 Shadow DOM serialization failed for ${target.url()}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return target.content();
+  }
+
+  /**
+   * The frozen snapshot of a page or frame, replayed in the viewer's static mode. Taken
+   * without changing the page, so the screenshot and route exploration see it as it was.
+   */
+  private async serializeFrozen(target: Page | Frame): Promise<string | undefined> {
+    try {
+      const snapshot = await new ShadowDomSerializer().serialize(target, { frozen: true });
+      if (snapshot.canvases > 0) {
+        console.log(`   🧊 Froze ${snapshot.canvases} canvases of ${target.url()} as images`);
+      }
+      return snapshot.html;
+    } catch (error) {
+      console.warn(`🧊 Static snapshot failed for ${target.url()}:`, error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Serialize the documents of the page's iframes, walking nested frames down to maxDepth.
+   * Frames without an http(s) document (about:blank, srcdoc, data:) are part of their
+   * parent's serialization or not replayable, and a frame already captured from the same
+   * URL is kept once. A frame that detaches or can't be read is left out.
+   */
+  private async captureFrames(page: Page, maxDepth: number, shadowDom?: boolean, staticSnapshot?: boolean): Promise<FrameData[]> {
+    const frames: FrameData[] = [];
+    const seen = new Set<string>();
+    
+    const walk = async (parent: Frame, depth: number) => {
+      if (depth > maxDepth) return;
+      for (const frame of parent.childFrames()) {
+        const url = frame.url();
+        if (frame.isDetached() || !/^https?:/i.test(url) || seen.has(url)) continue;
+        seen.add(url);
+        try {
+          const src = await frame.frameElement().then(element => element.evaluate(el => (el as HTMLIFrameElement).src)).catch(() => '');
+          frames.push({
+            url,
+            ...(src && src !== url ? { src } : {}),
+            html: await this.serializeDocument(frame, shadowDom),
+            ...(staticSnapshot ? { staticHtml: await this.serializeFrozen(frame) } : {}),
+            path: this.generateFramePath(url),
+            depth,
+          });
+        } catch (error) {
+          console.warn(`🪟 Could not capture frame ${url}:`, error instanceof Error ? error.message : error);
+          continue;
+        }
+        await walk(frame, depth + 1);
+      }
+    };
+    
+    await walk(page.mainFrame(), 1);
+    if (frames.length > 0) {
+      console.log(`   🪟 Captured ${frames.length} frame document${frames.length === 1 ? '' : 's'}`);
+    }
+    return frames;
+  }
+
+  /**
+   * Click around a copy of the page in a browser context of its own, started from the crawl's
+   * session, so neither the snapshot nor the cookies and storage of the crawl's tabs are
+   * changed by what the clicks do. A failed exploration is logged and finds no routes.
+   */
+  private async exploreRoutes(page: Page, url: string, options: CrawlPageOptions): Promise<string[]> {
+    const browser = page.context().browser();
+    if (!browser) {
+      return [];
+    }
+    const sandbox = await browser.newContext({ ...(options.profile && toContextOptions(options.profile)), storageState: options.storageState });
     try {
-      const domain1 = new URL(url1).hostname;
-      const domain2 = new URL(url2).hostname;
-      return domain1 === domain2;
-    } catch {
-      return false;
+      const { routes, clicked, candidates } = await new RouteExplorer().explore(await sandbox.newPage(), url, { scheduler: options.scheduler, isAllowed: options.isAllowed });
+      console.log(`   🧭 Clicked ${clicked} of ${candidates} elements, found ${routes.length} client-side routes`);
+      return routes;
+    } catch (error) {
+      console.warn(`🧭 Route exploration failed for ${url}:`, error instanceof Error ? error.message : error);
+      return [];
+    } finally {
+      await sandbox.close().catch(() => {});
+    }
+  }
+
+  /**
+   * The page's own document response, with the redirects that led to it
+   */
+  private async captureNavigation(navigationResponse: Response): Promise<CapturedResponse> {
+    const redirects = await this.getRedirectChain(navigationResponse.request());
+    return {
+      url: navigationResponse.url(),
+      method: navigationResponse.request().method(),
+      status: navigationResponse.status(),
+      statusText: navigationResponse.statusText(),
+      requestHeaders: await navigationResponse.request().allHeaders(),
+      responseHeaders: await navigationResponse.allHeaders(),
+      body: await navigationResponse.body(),
+      ...(redirects.length > 0 ? { redirects } : {}),
+    };
+  }
+
+  /**
+   * The redirects the browser followed before sending request, oldest first
+   */
+  private async getRedirectChain(request: Request): Promise<RedirectHop[]> {
+    const hops: RedirectHop[] = [];
+    let target = request;
+    for (let previous = target.redirectedFrom(); previous; target = previous, previous = previous.redirectedFrom()) {
+      const response = await previous.response();
+      hops.unshift({
+        url: previous.url(),
+        ...(response ? { status: response.status() } : {}),
+        location: (await response?.headerValue('location')) ?? target.url(),
+      });
+    }
+    return hops;
+  }
+
+  /**
+   * Save a full-page screenshot (and optionally a PDF) next to where the page will be written,
+   * e.g. about/index.html -> about/index.screenshot.png and about/index.pdf. A failed
+   * rendition is logged and left out rather than failing the page.
+   */
+  private async saveRenditions(page: Page, pagePath: string, renditionsDir: string, pdf?: boolean): Promise<Pick<PageData, 'screenshot' | 'pdf'>> {
+    const basePath = pagePath.replace(/\.html?$/i, '');
+    const renditions: Pick<PageData, 'screenshot' | 'pdf'> = {};
+    await fs.mkdir(path.dirname(path.join(renditionsDir, pagePath)), { recursive: true });
+    
+    try {
+      const screenshot = `${basePath}.screenshot.png`;
+      await page.screenshot({ path: path.join(renditionsDir, screenshot), fullPage: true, timeout: 30000 });
+      renditions.screenshot = screenshot;
+    } catch (error) {
+      console.warn(`📸 Screenshot failed for ${page.url()}:`, error instanceof Error ? error.message : error);
+    }
+    
+    if (pdf) {
+      try {
+        const pdfPath = `${basePath}.pdf`;
+        await page.pdf({ path: path.join(renditionsDir, pdfPath), printBackground: true });
+        renditions.pdf = pdfPath;
+      } catch (error) {
+        console.warn(`📄 PDF rendition failed for ${page.url()}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    
+    return renditions;
+  }
+
+  /**
+   * Read a subresource response from the browser and hand it to the sink. The page's own
+   * document and non-HTTP responses are skipped; redirects are recorded on the response
+   * they led to rather than on their own. Error responses are skipped too, so a 404 or 500
+   * body isn't archived as the asset: those URLs are left to the downloader, which retries
+   * them and logs them as failures.
+   */
+  private async captureSubresource(networkResponse: Response, page: Page, pageUrl: string, onResponse: ResponseSink): Promise<void> {
+    const request = networkResponse.request();
+    const status = networkResponse.status();
+    
+    if (request.isNavigationRequest() && request.frame() === page.mainFrame()) return;
+    if (!/^https?:/i.test(networkResponse.url()) || status < 200 || status >= 300) return;
+    
+    try {
+      const redirects = await this.getRedirectChain(request);
+      await onResponse({
+        url: networkResponse.url(),
+        method: request.method(),
+        status,
+        statusText: networkResponse.statusText(),
+        requestHeaders: await request.allHeaders(),
+        responseHeaders: await networkResponse.allHeaders(),
+        body: await networkResponse.body(),
+        ...(redirects.length > 0 ? { redirects } : {}),
+      }, pageUrl);
+    } catch (error) {
+      // Bodies of aborted or evicted responses can't be read; the extractor fallback may still find them
+      console.log(`⚠️ Could not capture ${networkResponse.url()}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Find same-domain page URLs listed in the site's sitemaps
+   */
+  private async discoverSitemapUrls(
+    startUrl: string,
+    maxPages: number,
+    scope: CrawlScope,
+    scheduler: HostScheduler,
+    retryPolicy: RetryPolicy
+  ): Promise<string[]> {
+    try {
+      const robots = await this.robots.getRobots(startUrl, scheduler, retryPolicy);
+      const urls = await this.sitemaps.discoverUrls(startUrl, robots.sitemaps, maxPages, scheduler);
+      const inScopeUrls = urls.filter(url => url !== startUrl && isUrlInScope(startUrl, url, scope));
+      console.log(`🗺️ Seeding crawl with ${inScopeUrls.length} sitemap URLs`);
+      return inScopeUrls;
+    } catch (error) {
+      console.warn(`⚠️ Sitemap discovery failed for ${startUrl}:`, error instanceof Error ? error.message : error);
+      return [];
     }
   }
 
@@ -98,15 +774,39 @@ export class CrawlerService {
   }
 
   /**
-   * Generate the relative path where a page should be saved, preserving the original URL structure
+   * Set how many pages are crawled in parallel, optionally per host (e.g. { 'example.com': 1 })
+   */
+  setConcurrency(defaultConcurrency: number, perHost: Record<string, number> = {}) {
+    this.concurrency = Math.max(1, defaultConcurrency);
+    this.hostConcurrency = perHost;
+  }
+
+  private getHostConcurrency(url: string): number {
+    const host = new URL(url).host;
+    return Math.max(1, this.hostConcurrency[host] ?? this.concurrency);
+  }
+
+  /**
+   * Where an iframe's document is saved: its page path under _frames/<host>/, since frames
+   * are often embedded from other sites (maps, videos, forms)
    */
-  private generatePagePath(url: string): string {
+  generateFramePath(url: string): string {
+    return `_frames/${new URL(url).host.replace(/:/g, '_')}/${this.generatePagePath(url)}`;
+  }
+
+  /**
+   * Generate the relative path where a page should be saved, preserving the original URL structure.
+   * A query string adds a hash of it to the file name (products?page=2 -> products-1x2y3z.html),
+   * like AssetDownloader does for assets. Only the query is hashed, not the host, so the viewer
+   * can work the path out from a request path alone.
+   */
+  generatePagePath(url: string): string {
     const urlObj = new URL(url);
     let path = urlObj.pathname;
     
     // Handle root path
     if (path === '/' || path === '') {
-      return 'index.html';
+      path = 'index.html';
     }
     
     // Remove leading slash
@@ -124,6 +824,11 @@ export class CrawlerService {
       path += '.html';
     }
     
+    if (urlObj.search) {
+      const queryHash = createUrlHash(urlObj.search);
+      path = path.replace(/(\.[^./]*)$/, `-${queryHash}$1`);
+    }
+    
     return path;
   }
 }
\ No newline at end of file
@@ -0,0 +1,55 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { FailureReason } from './RetryPolicy.ts';
+
+/**
+ * A page or asset that could not be archived
+ */
+export interface FailureRecord {
+  url: string;
+  kind: 'page' | 'asset';
+  status?: number;
+  errorClass?: string;
+  message: string;
+  attempts: number;
+  foundOn?: string; // Page the asset was referenced from
+  failedAt: string;
+}
+
+/**
+ * Per-archive log of URLs that still failed after their retries, kept as one JSON line
+ * per failure in data/failures/<id>.jsonl. A resumed job retries what failed before and
+ * may append the same URL again; it is listed once, with its latest failure.
+ */
+export class FailureLog {
+  private baseDir = path.join(process.cwd(), 'data', 'failures');
+
+  async record(archiveId: string, kind: FailureRecord['kind'], url: string, failure: FailureReason, attempts: number, foundOn?: string): Promise<void> {
+    const { transient, ...reason } = failure;
+    const record: FailureRecord = { url, kind, ...reason, attempts, foundOn, failedAt: new Date().toISOString() };
+    await fs.mkdir(this.baseDir, { recursive: true });
+    await fs.appendFile(this.getFile(archiveId), JSON.stringify(record) + '\n', 'utf8');
+  }
+
+  async list(archiveId: string): Promise<FailureRecord[]> {
+    try {
+      const data = await fs.readFile(this.getFile(archiveId), 'utf8');
+      const latest = new Map<string, FailureRecord>();
+      for (const line of data.split('\n').filter(line => line.trim())) {
+        const record = JSON.parse(line) as FailureRecord;
+        latest.set(record.url, record);
+      }
+      return Array.from(latest.values());
+    } catch {
+      return [];
+    }
+  }
+
+  async remove(archiveId: string): Promise<void> {
+    await fs.rm(this.getFile(archiveId), { force: true });
+  }
+
+  private getFile(archiveId: string): string {
+    return path.join(this.baseDir, `${archiveId}.jsonl`);
+  }
+}
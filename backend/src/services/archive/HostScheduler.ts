@@ -0,0 +1,197 @@
+export interface RateLimitOptions {
+  minDelayMs: number; // Minimum time between the starts of two requests to the same host
+  maxInFlight: number; // Requests to one host running at the same time
+  maxRetries: number; // Retries after a 429 or 503 before giving up
+  maxBackoffMs: number; // Cap on a single wait, whether from Retry-After or exponential back-off
+}
+
+export const DEFAULT_RATE_LIMIT_OPTIONS: RateLimitOptions = {
+  minDelayMs: 250,
+  maxInFlight: 4,
+  maxRetries: 3,
+  maxBackoffMs: 120000,
+};
+
+// Statuses that mean "slow down" rather than "this URL is broken"
+const RETRYABLE_STATUSES = new Set([429, 503]);
+const BASE_BACKOFF_MS = 1000;
+
+interface HostState {
+  inFlight: number;
+  nextStartAt: number; // Earliest start for the next request (minimum delay)
+  blockedUntil: number; // Set by Retry-After / back-off; holds every request to the host
+  minDelayMs: number;
+  waiters: Array<() => void>;
+}
+
+/**
+ * What the scheduler needs to know about a finished request to decide whether to back off
+ */
+export interface ScheduledOutcome {
+  status: number;
+  retryAfter?: string | null;
+}
+
+/**
+ * Per-host politeness for one archive job. Page loads and the subresources the browser loads
+ * for them in CrawlerService, and the fetches in AssetExtractor and AssetDownloader, all go
+ * through the same instance, so together they never exceed the host's limits, and a 429 seen
+ * by one pauses all of them.
+ */
+export class HostScheduler {
+  private options: RateLimitOptions;
+  private hosts = new Map<string, HostState>();
+
+  constructor(options: Partial<RateLimitOptions> = {}) {
+    this.options = { ...DEFAULT_RATE_LIMIT_OPTIONS, ...options };
+  }
+
+  /**
+   * fetch() through the scheduler, retrying 429/503 responses
+   */
+  async fetch(url: string, init?: RequestInit): Promise<Response> {
+    return this.request(url, () => fetch(url, init), response => ({
+      status: response.status,
+      retryAfter: response.headers.get('retry-after'),
+    }), response => response.body?.cancel());
+  }
+
+  /**
+   * Run a request to url's host once a slot is free. When outcome reports a 429 or 503 the
+   * whole host is paused (Retry-After, or exponential back-off) and the request is retried,
+   * up to maxRetries times; the last result is returned either way. Results that are retried
+   * are passed to discard first.
+   */
+  async request<T>(
+    url: string,
+    task: () => Promise<T>,
+    outcome: (result: T) => ScheduledOutcome,
+    discard?: (result: T) => unknown
+  ): Promise<T> {
+    const host = this.getHost(url);
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(host);
+      let result: T;
+      try {
+        result = await task();
+      } finally {
+        this.release(host);
+      }
+
+      const { status, retryAfter } = outcome(result);
+      if (!RETRYABLE_STATUSES.has(status) || attempt >= this.options.maxRetries) {
+        return result;
+      }
+
+      await discard?.(result);
+      const waitMs = this.getBackoffMs(attempt, retryAfter);
+      const state = this.getState(host);
+      state.blockedUntil = Math.max(state.blockedUntil, Date.now() + waitMs);
+      console.log(`🐢 ${host} answered ${status}, pausing it for ${waitMs}ms (retry ${attempt + 1}/${this.options.maxRetries})`);
+    }
+  }
+
+  /**
+   * Wait for a slot on url's host and hold it until the returned function is called, for
+   * requests the scheduler doesn't run itself (the browser's subresource loads). Releasing
+   * more than once is harmless.
+   */
+  async acquireSlot(url: string): Promise<() => void> {
+    const host = this.getHost(url);
+    await this.acquire(host);
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.release(host);
+      }
+    };
+  }
+
+  /**
+   * Pause url's host after a 429 or 503 answered to a request made outside request(), which
+   * can't be retried from here
+   */
+  reportOutcome(url: string, { status, retryAfter }: ScheduledOutcome): void {
+    if (!RETRYABLE_STATUSES.has(status)) return;
+    const host = this.getHost(url);
+    const state = this.getState(host);
+    const waitMs = this.getBackoffMs(0, retryAfter);
+    if (Date.now() + waitMs > state.blockedUntil) {
+      state.blockedUntil = Date.now() + waitMs;
+      console.log(`🐢 ${host} answered ${status}, pausing it for ${waitMs}ms`);
+    }
+  }
+
+  /**
+   * Raise a host's minimum delay, e.g. to its robots.txt Crawl-delay. Never lowers it.
+   */
+  setMinDelay(url: string, delayMs: number): void {
+    const state = this.getState(this.getHost(url));
+    state.minDelayMs = Math.max(state.minDelayMs, delayMs);
+  }
+
+  /**
+   * How long to wait before retrying: Retry-After (seconds or an HTTP date) when the server
+   * sent one, otherwise 1s, 2s, 4s, ... Both are capped at maxBackoffMs.
+   */
+  getBackoffMs(attempt: number, retryAfter?: string | null): number {
+    let waitMs = BASE_BACKOFF_MS * 2 ** attempt;
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const date = Date.parse(retryAfter);
+      if (Number.isFinite(seconds) && seconds >= 0) {
+        waitMs = seconds * 1000;
+      } else if (!Number.isNaN(date)) {
+        waitMs = Math.max(0, date - Date.now());
+      }
+    }
+    return Math.min(waitMs, this.options.maxBackoffMs);
+  }
+
+  private async acquire(host: string): Promise<void> {
+    const state = this.getState(host);
+
+    while (true) {
+      const now = Date.now();
+      const startAt = Math.max(state.nextStartAt, state.blockedUntil);
+
+      // Claim synchronously so concurrent callers can't both take the last slot
+      if (state.inFlight < this.options.maxInFlight && startAt <= now) {
+        state.inFlight++;
+        state.nextStartAt = now + state.minDelayMs;
+        return;
+      }
+
+      if (state.inFlight >= this.options.maxInFlight) {
+        await new Promise<void>(resolve => state.waiters.push(resolve));
+      } else {
+        await new Promise(resolve => setTimeout(resolve, startAt - now));
+      }
+    }
+  }
+
+  private release(host: string): void {
+    const state = this.getState(host);
+    state.inFlight--;
+    state.waiters.shift()?.();
+  }
+
+  private getState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { inFlight: 0, nextStartAt: 0, blockedUntil: 0, minDelayMs: this.options.minDelayMs, waiters: [] };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private getHost(url: string): string {
+    try {
+      return new URL(url).host;
+    } catch {
+      return url;
+    }
+  }
+}
@@ -0,0 +1,38 @@
+export type JobStopRequest = { action: 'pause' } | { action: 'cancel'; keepPartial: boolean };
+
+/**
+ * Stop requests for one running archive job. The crawler, downloader and rewriter poll
+ * it between units of work, so a job stops cleanly at the next page or asset rather
+ * than being torn down mid-write.
+ */
+export class JobControl {
+  private request: JobStopRequest | null = null;
+
+  get stopRequest(): JobStopRequest | null {
+    return this.request;
+  }
+
+  pause(): void {
+    this.request ??= { action: 'pause' };
+  }
+
+  /**
+   * Cancel the job. A cancel overrides an earlier pause, since the job will never resume.
+   */
+  cancel(keepPartial: boolean): void {
+    if (this.request?.action !== 'cancel') {
+      this.request = { action: 'cancel', keepPartial };
+    }
+  }
+
+  /**
+   * Whether to stop fetching anything new
+   */
+  shouldStop = (): boolean => this.request !== null;
+
+  /**
+   * Whether work in progress is going to be thrown away or redone on resume, so there is
+   * no point finishing it. Only a cancel that keeps the partial capture still needs it.
+   */
+  shouldAbort = (): boolean => this.request !== null && !(this.request.action === 'cancel' && this.request.keepPartial);
+}
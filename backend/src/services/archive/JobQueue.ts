@@ -0,0 +1,138 @@
+import { getRegistrableDomain } from './CrawlOptions.ts';
+
+export interface JobQueueLimits {
+  maxConcurrent: number; // Jobs running at once, each with its own browser
+  maxPerDomain: number; // Jobs running at once against one registrable domain
+}
+
+export const DEFAULT_JOB_QUEUE_LIMITS: JobQueueLimits = {
+  maxConcurrent: 2,
+  maxPerDomain: 1,
+};
+
+const PRIORITY_LIMITS = { min: -100, max: 100 };
+
+/**
+ * Validate the `priority` field of an archive request; 0 when it is absent
+ */
+export function validateJobPriority(input: unknown): { priority?: number; errors: string[] } {
+  if (input === undefined || input === null) {
+    return { priority: 0, errors: [] };
+  }
+  const { min, max } = PRIORITY_LIMITS;
+  if (typeof input !== 'number' || !Number.isInteger(input) || input < min || input > max) {
+    return { errors: [`priority must be an integer between ${min} and ${max}`] };
+  }
+  return { priority: input, errors: [] };
+}
+
+export interface QueuedJob {
+  id: string;
+  url: string;
+  priority: number; // Higher runs first; equal priorities run in submission order
+  run: () => Promise<void>;
+}
+
+interface PendingJob extends QueuedJob {
+  domain: string;
+  order: number;
+  queuedAt: string;
+}
+
+interface ActiveJob {
+  id: string;
+  url: string;
+  domain: string;
+  priority: number;
+  startedAt: string;
+}
+
+/**
+ * What GET /api/archives/queue reports
+ */
+export interface JobQueueSnapshot {
+  limits: JobQueueLimits;
+  active: ActiveJob[];
+  queued: Array<Omit<PendingJob, 'run' | 'order'> & { position: number }>;
+}
+
+/**
+ * Runs archive jobs with a global and a per-domain concurrency limit. Waiting jobs start
+ * by priority, then in the order they were submitted; a job whose domain is at its limit
+ * is passed over for the next one rather than holding up the queue.
+ */
+export class JobQueue {
+  private limits: JobQueueLimits;
+  private pending: PendingJob[] = [];
+  private active = new Map<string, ActiveJob>();
+  private nextOrder = 0;
+
+  constructor(limits: Partial<JobQueueLimits> = {}) {
+    this.limits = { ...DEFAULT_JOB_QUEUE_LIMITS, ...limits };
+  }
+
+  setLimits(limits: Partial<JobQueueLimits>): void {
+    this.limits = { ...this.limits, ...limits };
+    this.startReadyJobs();
+  }
+
+  enqueue(job: QueuedJob): void {
+    this.pending.push({ ...job, domain: this.getDomain(job.url), order: this.nextOrder++, queuedAt: new Date().toISOString() });
+    this.pending.sort((a, b) => b.priority - a.priority || a.order - b.order);
+    this.startReadyJobs();
+  }
+
+  /**
+   * Take a job out of the queue before it starts. Returns false if it isn't waiting.
+   */
+  remove(id: string): boolean {
+    const index = this.pending.findIndex(job => job.id === id);
+    if (index === -1) {
+      return false;
+    }
+    this.pending.splice(index, 1);
+    return true;
+  }
+
+  isQueued(id: string): boolean {
+    return this.pending.some(job => job.id === id);
+  }
+
+  getSnapshot(): JobQueueSnapshot {
+    return {
+      limits: { ...this.limits },
+      active: Array.from(this.active.values()),
+      queued: this.pending.map(({ run, order, ...job }, index) => ({ ...job, position: index + 1 })),
+    };
+  }
+
+  private startReadyJobs(): void {
+    for (let i = 0; i < this.pending.length && this.active.size < this.limits.maxConcurrent;) {
+      const job = this.pending[i];
+      const runningOnDomain = Array.from(this.active.values()).filter(active => active.domain === job.domain).length;
+      if (runningOnDomain >= this.limits.maxPerDomain) {
+        i++;
+        continue;
+      }
+
+      this.pending.splice(i, 1);
+      this.active.set(job.id, { id: job.id, url: job.url, domain: job.domain, priority: job.priority, startedAt: new Date().toISOString() });
+      console.log(`🚦 Starting job ${job.id} (${this.active.size}/${this.limits.maxConcurrent} running, ${this.pending.length} queued)`);
+
+      job.run()
+        .catch(error => console.error(`Job ${job.id} failed:`, error))
+        .finally(() => {
+          this.active.delete(job.id);
+          this.startReadyJobs();
+        });
+    }
+  }
+
+  private getDomain(url: string): string {
+    try {
+      return getRegistrableDomain(new URL(url).hostname);
+    } catch {
+      return url;
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { CapturedResponse } from './CaptureStore.ts';
+
+export interface DocumentOptions {
+  maxBytes: number; // Larger documents are skipped, by Content-Length or once the body grows past it
+  mimeTypes: string[]; // Allowlist; "audio/*" or "application/vnd.ms-*" match by prefix. Empty disables document capture
+}
+
+export const DEFAULT_DOCUMENT_OPTIONS: DocumentOptions = {
+  maxBytes: 50 * 1024 * 1024,
+  mimeTypes: [
+    'application/pdf',
+    'application/msword',
+    'application/vnd.ms-*',
+    'application/vnd.openxmlformats-officedocument.*',
+    'application/vnd.oasis.opendocument.*',
+    'application/rtf',
+    'application/epub+zip',
+    'text/csv',
+    'application/zip',
+    'application/x-zip-compressed',
+    'application/gzip',
+    'application/x-tar',
+    'application/x-7z-compressed',
+    'audio/*',
+    'video/*',
+  ],
+};
+
+const HTML_TYPES = ['text/html', 'application/xhtml+xml'];
+
+/**
+ * Thrown by CrawlerService.crawlPage when a link turns out not to be an HTML page
+ * (a PDF, a ZIP, a video, ...), so it can be captured as a document instead. Carries the
+ * response the browser's navigation got, so the document isn't fetched a second time.
+ */
+export class LinkedDocumentError extends Error {
+  constructor(public url: string, public contentType: string = '', public response?: CapturedResponse) {
+    super(`${url} is not an HTML page${contentType ? ` (${contentType})` : ''}`);
+    this.name = 'LinkedDocumentError';
+  }
+}
+
+function getMimeType(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Whether a response is a page to render. Responses without a Content-Type are left to the browser's sniffing.
+ */
+export function isHtmlContentType(contentType: string): boolean {
+  const mime = getMimeType(contentType);
+  return mime === '' || HTML_TYPES.includes(mime);
+}
+
+export function isAllowedDocumentType(contentType: string, mimeTypes: string[]): boolean {
+  const mime = getMimeType(contentType);
+  return mime !== '' && mimeTypes.some(pattern => {
+    const p = pattern.toLowerCase();
+    return p.endsWith('*') ? mime.startsWith(p.slice(0, -1)) : mime === p;
+  });
+}
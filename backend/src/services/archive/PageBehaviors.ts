@@ -0,0 +1,154 @@
+import { Page } from 'playwright';
+
+export type PageBehaviorName = 'autoScroll' | 'hoverMenus' | 'expandDetails';
+
+export interface PageBehaviorOptions {
+  autoScroll: boolean; // Scroll to the bottom until the page height stops growing (lazy images, infinite feeds)
+  hoverMenus: boolean; // Hover navigation items so dropdown menus render their contents
+  expandDetails: boolean; // Open every <details> element
+  timeoutMs: number; // Limit for each behavior on its own
+}
+
+export const DEFAULT_PAGE_BEHAVIOR_OPTIONS: PageBehaviorOptions = {
+  autoScroll: true,
+  hoverMenus: true,
+  expandDetails: true,
+  timeoutMs: 10000,
+};
+
+/**
+ * What a behavior did on one page, stored with the page's capture record
+ */
+export interface BehaviorLog {
+  name: PageBehaviorName;
+  status: 'completed' | 'timedOut' | 'failed';
+  durationMs: number;
+  detail: string;
+}
+
+// The page counts as fully loaded once its height stays the same for this many scroll checks
+const STABLE_HEIGHT_CHECKS = 3;
+const SCROLL_SETTLE_MS = 400;
+const MAX_HOVER_TARGETS = 20;
+const HOVER_SELECTORS = [
+  'nav li',
+  '[aria-haspopup="true"]',
+  '[aria-haspopup="menu"]',
+  '.dropdown',
+  '.menu-item-has-children',
+  '[role="menuitem"]',
+].join(', ');
+
+class BehaviorTimeout extends Error {}
+
+/**
+ * Interactions run on a loaded page before it is snapshotted, so content that only
+ * appears on scroll, hover or expansion makes it into the archive
+ */
+export class PageBehaviors {
+  private options: PageBehaviorOptions;
+
+  constructor(options: Partial<PageBehaviorOptions> = {}) {
+    this.options = { ...DEFAULT_PAGE_BEHAVIOR_OPTIONS, ...options };
+  }
+
+  /**
+   * Run every enabled behavior in turn. A behavior that fails or times out is logged
+   * and the rest still run.
+   */
+  async run(page: Page): Promise<BehaviorLog[]> {
+    const behaviors: Array<[PageBehaviorName, (page: Page, deadline: number) => Promise<string>]> = [
+      ['expandDetails', this.expandDetails],
+      ['hoverMenus', this.hoverMenus],
+      ['autoScroll', this.autoScroll],
+    ];
+
+    const logs: BehaviorLog[] = [];
+    for (const [name, behavior] of behaviors) {
+      if (!this.options[name]) continue;
+
+      const startTime = Date.now();
+      const deadline = startTime + this.options.timeoutMs;
+      let timer: NodeJS.Timeout | undefined;
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new BehaviorTimeout(`Stopped after ${this.options.timeoutMs}ms`)), this.options.timeoutMs + 1000);
+      });
+
+      let log: BehaviorLog;
+      try {
+        const detail = await Promise.race([behavior.call(this, page, deadline), timeout]);
+        const status = Date.now() >= deadline ? 'timedOut' : 'completed';
+        log = { name, status, durationMs: Date.now() - startTime, detail };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log = { name, status: error instanceof BehaviorTimeout ? 'timedOut' : 'failed', durationMs: Date.now() - startTime, detail: message };
+      } finally {
+        clearTimeout(timer);
+      }
+
+      console.log(`   🎬 ${name}: ${log.status} in ${log.durationMs}ms (${log.detail})`);
+      logs.push(log);
+    }
+    return logs;
+  }
+
+  /**
+   * Scroll one viewport at a time until the bottom is reached and the document height
+   * has stopped changing, then return to the top
+   */
+  private async autoScroll(page: Page, deadline: number): Promise<string> {
+    let steps = 0;
+    let stableChecks = 0;
+    let lastHeight = await page.evaluate(() => document.documentElement.scrollHeight);
+    const initialHeight = lastHeight;
+
+    while (Date.now() < deadline && stableChecks < STABLE_HEIGHT_CHECKS) {
+      const atBottom = await page.evaluate(() => {
+        window.scrollBy(0, window.innerHeight);
+        return window.scrollY + window.innerHeight >= document.documentElement.scrollHeight - 2;
+      });
+      steps++;
+      await page.waitForTimeout(SCROLL_SETTLE_MS);
+
+      const height = await page.evaluate(() => document.documentElement.scrollHeight);
+      stableChecks = atBottom && height === lastHeight ? stableChecks + 1 : 0;
+      lastHeight = height;
+    }
+
+    await page.evaluate(() => window.scrollTo(0, 0));
+    return `${steps} scroll steps, height ${initialHeight}px -> ${lastHeight}px`;
+  }
+
+  /**
+   * Hover likely menu triggers so CSS :hover and mouseenter menus render their items
+   */
+  private async hoverMenus(page: Page, deadline: number): Promise<string> {
+    const targets = page.locator(HOVER_SELECTORS);
+    const count = Math.min(await targets.count(), MAX_HOVER_TARGETS);
+    let hovered = 0;
+
+    for (let i = 0; i < count && Date.now() < deadline; i++) {
+      const target = targets.nth(i);
+      try {
+        if (!(await target.isVisible())) continue;
+        await target.hover({ timeout: Math.max(100, Math.min(1000, deadline - Date.now())) });
+        await page.waitForTimeout(100);
+        hovered++;
+      } catch {
+        // Covered or detached elements can't be hovered; move on to the next one
+      }
+    }
+
+    await page.mouse.move(0, 0).catch(() => {});
+    return `hovered ${hovered} of ${count} menu elements`;
+  }
+
+  private async expandDetails(page: Page): Promise<string> {
+    const opened = await page.evaluate(() => {
+      const closed = Array.from(document.querySelectorAll('details:not([open])'));
+      closed.forEach(details => details.setAttribute('open', ''));
+      return closed.length;
+    });
+    return `opened ${opened} <details> elements`;
+  }
+}
@@ -0,0 +1,125 @@
+export interface RetryOptions {
+  maxRetries: number; // Retries after the first attempt, for transient failures only
+  baseDelayMs: number; // Back-off before the first retry; doubles for each one after
+  maxDelayMs: number; // Cap on a single back-off
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+// 429 and 503 are retried by HostScheduler, which also pauses the host, so they aren't repeated here
+const TRANSIENT_STATUSES = new Set([408, 500, 502, 504]);
+const TRANSIENT_NET_ERRORS = new Set([
+  'ERR_CONNECTION_RESET', 'ERR_CONNECTION_CLOSED', 'ERR_CONNECTION_REFUSED', 'ERR_CONNECTION_TIMED_OUT',
+  'ERR_TIMED_OUT', 'ERR_EMPTY_RESPONSE', 'ERR_NETWORK_CHANGED', 'ERR_HTTP2_PROTOCOL_ERROR',
+]);
+const TRANSIENT_SYSTEM_ERRORS = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN',
+  'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT',
+]);
+
+/**
+ * Why a request failed, as stored in the failure log
+ */
+export interface FailureReason {
+  status?: number; // HTTP status, when the server answered
+  errorClass?: string; // e.g. timeout, ERR_CONNECTION_RESET, ECONNRESET; when it didn't
+  message: string;
+  transient: boolean;
+}
+
+/**
+ * A response with an error status, thrown so it can be retried like a network error
+ */
+export class HttpStatusError extends Error {
+  constructor(public status: number, statusText: string = '') {
+    super(`HTTP ${status}${statusText ? `: ${statusText}` : ''}`);
+    this.name = 'HttpStatusError';
+  }
+}
+
+/**
+ * Thrown by RetryPolicy.run once a request has failed for good
+ */
+export class RetriesExhaustedError extends Error {
+  constructor(public failure: FailureReason, public attempts: number, public lastError?: unknown) {
+    super(`${failure.message} (after ${attempts} attempt${attempts === 1 ? '' : 's'})`);
+    this.name = 'RetriesExhaustedError';
+  }
+}
+
+/**
+ * Classify an error from Playwright or fetch() as transient (worth retrying) or not
+ */
+export function describeFailure(error: unknown): FailureReason {
+  if (error instanceof RetriesExhaustedError) {
+    return error.failure;
+  }
+  if (error instanceof HttpStatusError) {
+    return { status: error.status, message: error.message, transient: TRANSIENT_STATUSES.has(error.status) };
+  }
+
+  const err = error as { name?: string; message?: string; code?: string; cause?: { code?: string; message?: string } } | undefined;
+  const message = (err?.message || String(error)).split('\n')[0];
+
+  // Chromium network errors, e.g. "page.goto: net::ERR_CONNECTION_RESET at https://..."
+  const netError = message.match(/net::(ERR_[A-Z0-9_]+)/)?.[1];
+  if (netError) {
+    return { errorClass: netError, message, transient: TRANSIENT_NET_ERRORS.has(netError) };
+  }
+  if (err?.name === 'TimeoutError' || err?.name === 'AbortError') {
+    return { errorClass: 'timeout', message, transient: true };
+  }
+
+  // Node's fetch reports "fetch failed" with the socket error as its cause
+  const code = err?.code || err?.cause?.code;
+  if (code) {
+    return { errorClass: code, message: err?.cause?.message ? `${message}: ${err.cause.message}` : message, transient: TRANSIENT_SYSTEM_ERRORS.has(code) };
+  }
+  return { errorClass: err?.name || 'Error', message, transient: false };
+}
+
+/**
+ * Retries transient failures (timeouts, connection resets, 5xx) with exponential back-off
+ * and jitter, so tabs and jobs that failed together don't all retry at the same moment
+ */
+export class RetryPolicy {
+  private options: RetryOptions;
+
+  constructor(options: Partial<RetryOptions> = {}) {
+    this.options = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  }
+
+  /**
+   * Run task until it succeeds, fails with a non-transient error, or runs out of retries.
+   * Throws RetriesExhaustedError with the last failure.
+   */
+  async run<T>(url: string, task: (attempt: number) => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await task(attempt);
+      } catch (error) {
+        const failure = describeFailure(error);
+        if (!failure.transient || attempt >= this.options.maxRetries) {
+          throw new RetriesExhaustedError(failure, attempt + 1, error);
+        }
+
+        const delayMs = this.getDelayMs(attempt);
+        console.log(`🔁 ${url} failed (${failure.status ?? failure.errorClass}), retrying in ${delayMs}ms (retry ${attempt + 1}/${this.options.maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  /**
+   * Back-off before retry number attempt + 1: half of base * 2^attempt, plus a random
+   * amount up to the other half, capped at maxDelayMs
+   */
+  getDelayMs(attempt: number): number {
+    const ceiling = Math.min(this.options.baseDelayMs * 2 ** attempt, this.options.maxDelayMs);
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+}
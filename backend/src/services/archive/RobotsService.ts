@@ -0,0 +1,213 @@
+import { HostScheduler } from './HostScheduler.ts';
+import { HttpStatusError, RetryPolicy, describeFailure } from './RetryPolicy.ts';
+
+/**
+ * Product token we identify as when matching robots.txt groups, when the browser's user agent isn't known
+ */
+export const CRAWLER_USER_AGENT_TOKEN = 'WaybackMachineArchiver';
+
+/**
+ * The product tokens of a user agent string, which robots.txt groups are matched against:
+ * "Mozilla/5.0 (X11) AppleWebKit/537.36 (KHTML, like Gecko) HeadlessChrome/120.0 Safari/537.36"
+ * -> mozilla, applewebkit, headlesschrome, safari. A bare name is its own token.
+ */
+export function getUserAgentTokens(userAgent: string): string[] {
+  const products = Array.from(userAgent.matchAll(/([A-Za-z][\w.-]*)\//g), match => match[1].toLowerCase());
+  return products.length > 0 ? products : [userAgent.trim().toLowerCase()];
+}
+
+// RFC 9309 allows caching robots.txt for up to 24 hours
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+// An unreachable robots.txt is asked for again soon, so one outage doesn't keep the site out of the crawl
+const UNREACHABLE_TTL_MS = 60 * 1000;
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+/**
+ * A parsed robots.txt file (RFC 9309 plus the common Crawl-delay and Sitemap extensions)
+ */
+export class RobotsTxt {
+  readonly sitemaps: string[] = [];
+  private groups: RobotsGroup[] = [];
+
+  constructor(content: string, private fallback: 'allow' | 'disallow' | 'unreachable' = 'allow') {
+    this.parse(content);
+  }
+
+  static allowAll(): RobotsTxt {
+    return new RobotsTxt('', 'allow');
+  }
+
+  static disallowAll(): RobotsTxt {
+    return new RobotsTxt('', 'disallow');
+  }
+
+  /**
+   * Stands in for a robots.txt that couldn't be fetched: nothing is allowed (RFC 9309), but
+   * unlike disallowAll() the site hasn't said so
+   */
+  static unreachable(): RobotsTxt {
+    return new RobotsTxt('', 'unreachable');
+  }
+
+  get isUnreachable(): boolean {
+    return this.fallback === 'unreachable';
+  }
+
+  isAllowed(url: string, userAgent: string = CRAWLER_USER_AGENT_TOKEN): boolean {
+    const urlObj = new URL(url);
+    const target = urlObj.pathname + urlObj.search;
+
+    if (urlObj.pathname === '/robots.txt') return true;
+    if (this.fallback !== 'allow') return false;
+
+    let best: RobotsRule | null = null;
+    for (const rule of this.getRules(userAgent)) {
+      if (!rule.pattern || !this.matches(rule.pattern, target)) continue;
+      // Longest match wins; on a tie the least restrictive rule (Allow) wins
+      if (!best || rule.pattern.length > best.pattern.length ||
+          (rule.pattern.length === best.pattern.length && rule.allow && !best.allow)) {
+        best = rule;
+      }
+    }
+
+    return best ? best.allow : true;
+  }
+
+  getCrawlDelay(userAgent: string = CRAWLER_USER_AGENT_TOKEN): number | undefined {
+    const delays = this.getGroups(userAgent)
+      .map(group => group.crawlDelay)
+      .filter((delay): delay is number => delay !== undefined);
+    return delays.length > 0 ? Math.max(...delays) : undefined;
+  }
+
+  private parse(content: string): void {
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const colon = line.indexOf(':');
+      if (colon <= 0) continue;
+
+      const field = line.slice(0, colon).trim().toLowerCase();
+      const value = line.slice(colon + 1).trim();
+
+      switch (field) {
+        case 'user-agent':
+          // Consecutive user-agent lines share one group
+          if (!current || !lastWasAgent) {
+            current = { agents: [], rules: [] };
+            this.groups.push(current);
+          }
+          current.agents.push(value.toLowerCase());
+          lastWasAgent = true;
+          continue;
+        case 'allow':
+        case 'disallow':
+          current?.rules.push({ allow: field === 'allow', pattern: value });
+          break;
+        case 'crawl-delay': {
+          const delay = parseFloat(value);
+          if (current && Number.isFinite(delay) && delay >= 0) {
+            current.crawlDelay = delay;
+          }
+          break;
+        }
+        case 'sitemap':
+          if (value) this.sitemaps.push(value);
+          break;
+      }
+      lastWasAgent = false;
+    }
+  }
+
+  private getGroups(userAgent: string): RobotsGroup[] {
+    const tokens = getUserAgentTokens(userAgent);
+    const specific = this.groups.filter(group =>
+      group.agents.some(agent => agent !== '*' && tokens.includes(agent))
+    );
+    return specific.length > 0 ? specific : this.groups.filter(group => group.agents.includes('*'));
+  }
+
+  private getRules(userAgent: string): RobotsRule[] {
+    return this.getGroups(userAgent).flatMap(group => group.rules);
+  }
+
+  private matches(pattern: string, target: string): boolean {
+    const anchored = pattern.endsWith('$');
+    const body = anchored ? pattern.slice(0, -1) : pattern;
+    const regex = body
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(target);
+  }
+}
+
+/**
+ * Fetches and caches robots.txt per origin
+ */
+export class RobotsService {
+  private cache = new Map<string, { robots: RobotsTxt; fetchedAt: number }>();
+
+  /**
+   * The robots.txt of the URL's origin. Timeouts, resets and server errors are retried with
+   * retryPolicy; when it still can't be fetched, RobotsTxt.unreachable() is returned.
+   */
+  async getRobots(url: string, scheduler: HostScheduler = new HostScheduler(), retryPolicy: RetryPolicy = new RetryPolicy()): Promise<RobotsTxt> {
+    const origin = new URL(url).origin;
+    const cached = this.cache.get(origin);
+    if (cached && Date.now() - cached.fetchedAt < (cached.robots.isUnreachable ? UNREACHABLE_TTL_MS : CACHE_TTL_MS)) {
+      return cached.robots;
+    }
+
+    const robots = await this.fetchRobots(origin, scheduler, retryPolicy);
+    this.cache.set(origin, { robots, fetchedAt: Date.now() });
+    return robots;
+  }
+
+  /**
+   * Whether the client sending userAgent (the crawl browser's) may fetch the URL
+   */
+  async isAllowed(url: string, scheduler?: HostScheduler, userAgent?: string, retryPolicy?: RetryPolicy): Promise<boolean> {
+    const robots = await this.getRobots(url, scheduler, retryPolicy);
+    return robots.isAllowed(url, userAgent);
+  }
+
+  private async fetchRobots(origin: string, scheduler: HostScheduler, retryPolicy: RetryPolicy): Promise<RobotsTxt> {
+    const robotsUrl = `${origin}/robots.txt`;
+    try {
+      return await retryPolicy.run(robotsUrl, async () => {
+        const response = await scheduler.fetch(robotsUrl, {
+          headers: { 'User-Agent': CRAWLER_USER_AGENT_TOKEN },
+          signal: AbortSignal.timeout(10000),
+        });
+
+        if (response.ok) {
+          const robots = new RobotsTxt(await response.text());
+          console.log(`🤖 Loaded robots.txt for ${origin}`);
+          return robots;
+        }
+
+        // Per RFC 9309: a missing robots.txt allows everything, a server error makes it unreachable
+        if (response.status >= 500) {
+          throw new HttpStatusError(response.status, response.statusText);
+        }
+        return RobotsTxt.allowAll();
+      });
+    } catch (error) {
+      console.warn(`⚠️ Could not fetch ${robotsUrl}, not crawling ${origin} until it can be: ${describeFailure(error).message}`);
+      return RobotsTxt.unreachable();
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { Page } from 'playwright';
+import { HostScheduler } from './HostScheduler.ts';
+
+const EXPLORE_TIMEOUT_MS = 20000; // For the whole exploration, navigations included
+const NAVIGATION_TIMEOUT_MS = 30000;
+const MAX_CLICK_TARGETS = 25;
+const CLICK_SETTLE_MS = 300;
+// Elements apps navigate from without an href. Anchors with one are already followed as links.
+const CLICK_SELECTORS = [
+  'button:not([type="submit"]):not([disabled])',
+  'a:not([href])',
+  '[role="button"]',
+  '[role="link"]',
+  '[role="tab"]',
+  '[role="menuitem"]',
+  '[onclick]',
+  '[data-href]',
+  '[data-to]',
+].join(', ');
+
+/**
+ * Routes found by exploring one page
+ */
+export interface RouteExploration {
+  routes: string[]; // Absolute URLs passed to pushState/replaceState, other than the page's own
+  clicked: number;
+  candidates: number;
+}
+
+/**
+ * How the explorer's own page loads are made; unthrottled and unchecked when absent
+ */
+export interface ExploreOptions {
+  scheduler?: HostScheduler; // Each load waits for a slot on its host, like a page load of the crawl
+  isAllowed?: (url: string) => Promise<boolean>; // robots.txt; a disallowed load ends the exploration
+}
+
+/**
+ * Finds client-side routes (React Router, Vue Router, ...) that aren't plain links by
+ * clicking interactive elements and recording every URL the app passes to
+ * history.pushState/replaceState. The tab it is given should be a throwaway one; it is
+ * sandboxed so only GET requests leave it, which keeps a click from submitting, deleting or
+ * logging out anything, and its dialogs and popups are dismissed. The page is loaded again
+ * after every click that navigates; those loads count against the same EXPLORE_TIMEOUT_MS.
+ */
+export class RouteExplorer {
+  async explore(page: Page, url: string, options: ExploreOptions = {}): Promise<RouteExploration> {
+    const routes = new Set<string>();
+    const deadline = Date.now() + EXPLORE_TIMEOUT_MS;
+    const load = async (target: string) => {
+      if (options.isAllowed && !(await options.isAllowed(target))) {
+        throw new Error(`${target} is disallowed by robots.txt`);
+      }
+      // The slot is held until the document arrives, as for the crawl's own page loads
+      const navigate = () => {
+        const remaining = deadline - Date.now();
+        return remaining > 0
+          ? page.goto(target, { waitUntil: 'commit', timeout: Math.min(NAVIGATION_TIMEOUT_MS, remaining) })
+          : Promise.reject(new Error('Route exploration ran out of time'));
+      };
+      await (options.scheduler
+        ? options.scheduler.request(target, navigate, response => ({ status: response?.status() ?? 200, retryAfter: response?.headers()['retry-after'] }))
+        : navigate());
+      await page.waitForLoadState('networkidle', { timeout: Math.max(1, Math.min(NAVIGATION_TIMEOUT_MS, deadline - Date.now())) });
+    };
+
+    await page.route('**/*', route => (route.request().method() === 'GET' ? route.continue() : route.abort()));
+    page.on('dialog', dialog => dialog.dismiss().catch(() => {}));
+    page.on('popup', popup => popup.close().catch(() => {}));
+    await page.exposeFunction('__archiverRecordRoute', (route: string) => {
+      routes.add(route);
+    });
+    await page.addInitScript(() => {
+      const record = (route: string) => (window as unknown as { __archiverRecordRoute: (route: string) => void }).__archiverRecordRoute(route);
+      for (const method of ['pushState', 'replaceState'] as const) {
+        const original = history[method];
+        history[method] = function (this: History, data: unknown, unused: string, target?: string | URL | null) {
+          if (target !== undefined && target !== null) {
+            record(new URL(String(target), location.href).href);
+          }
+          return original.call(this, data, unused, target);
+        };
+      }
+    });
+
+    await load(url);
+    const startUrl = page.url(); // After any redirect or replaceState the app does on load
+    const targets = page.locator(CLICK_SELECTORS);
+    const candidates = Math.min(await targets.count(), MAX_CLICK_TARGETS);
+    let clicked = 0;
+
+    for (let i = 0; i < candidates && Date.now() < deadline; i++) {
+      try {
+        const target = targets.nth(i);
+        if (!(await target.isVisible())) continue;
+        await target.click({ timeout: Math.max(100, Math.min(1000, deadline - Date.now())) });
+        clicked++;
+        await page.waitForTimeout(CLICK_SETTLE_MS);
+      } catch {
+        // Covered, detached or slow elements are skipped
+        continue;
+      }
+
+      // Start every click from the original route, so the remaining targets are still there
+      if (page.url() !== startUrl) {
+        try {
+          await load(startUrl);
+        } catch (error) {
+          console.warn(`🧭 Stopped exploring ${url}:`, error instanceof Error ? error.message : error);
+          break;
+        }
+      }
+    }
+
+    routes.delete(url);
+    routes.delete(startUrl);
+    return { routes: Array.from(routes), clicked, candidates };
+  }
+}
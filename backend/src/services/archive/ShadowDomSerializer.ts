@@ -0,0 +1,165 @@
+import { Frame, Page } from 'playwright';
+
+/**
+ * A document serialized with its shadow roots
+ */
+export interface ShadowDomSnapshot {
+  html: string;
+  shadowRoots: number; // Open shadow roots written out as <template shadowrootmode>
+  adoptedStyleSheets: number; // Constructed stylesheets inlined as <style> elements
+  canvases: number; // Canvases replaced by images (frozen snapshots only)
+}
+
+/**
+ * Where the frozen snapshot of a page or frame is saved: next to it, e.g.
+ * about/index.html -> about/index.static.html
+ */
+export function getStaticPagePath(pagePath: string): string {
+  return /\.html?$/i.test(pagePath) ? pagePath.replace(/\.html?$/i, '.static.html') : `${pagePath}.static.html`;
+}
+
+/**
+ * Serializes a rendered document including its open shadow roots, which page.content()
+ * leaves out. Each shadow root becomes a declarative <template shadowrootmode="open"> in
+ * its host, so web components render when the snapshot is parsed even if their scripts
+ * fail under replay, and stylesheets adopted through adoptedStyleSheets (which have no
+ * element of their own) are inlined as <style> after the root's other styles, in the order
+ * they cascade. Closed shadow roots can't be reached from the page and stay empty.
+ *
+ * A frozen snapshot is meant to be replayed without any JavaScript: scripts and inline
+ * event handlers are left out, <style> elements are written from their live CSSOM (so rules
+ * scripts inserted with insertRule, as CSS-in-JS libraries do, are kept), form fields keep
+ * what they show, and canvases become images of what they had drawn.
+ */
+export class ShadowDomSerializer {
+  async serialize(target: Page | Frame, options: { frozen?: boolean } = {}): Promise<ShadowDomSnapshot> {
+    return target.evaluate(frozen => {
+      const VOID_ELEMENTS = new Set([
+        'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+      ]);
+      const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'xmp', 'iframe', 'noembed', 'noframes', 'plaintext', 'noscript']);
+      // noscript is hidden in the rendered page, so a frozen snapshot leaves it out rather than showing it
+      const SCRIPT_ELEMENTS = new Set(['script', 'noscript']);
+      const HTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+      let shadowRoots = 0;
+      let adoptedStyleSheets = 0;
+      let canvases = 0;
+
+      const escapeText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\u00a0/g, '&nbsp;');
+      const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/\u00a0/g, '&nbsp;');
+      const escapeStyle = (css: string) => css.replace(/<\/style/gi, '<\\/style');
+
+      const getRulesText = (sheet: CSSStyleSheet) => Array.from(sheet.cssRules).map(rule => rule.cssText).join('\n');
+
+      const inlineAdoptedStyles = (sheets: readonly CSSStyleSheet[]) => sheets.map(sheet => {
+        adoptedStyleSheets++;
+        return `<style data-adopted-stylesheet>${escapeStyle(getRulesText(sheet))}</style>`;
+      }).join('');
+
+      const isScriptLink = (element: Element) => {
+        if (element.localName !== 'link') return false;
+        const rel = (element.getAttribute('rel') || '').toLowerCase().split(/\s+/);
+        return rel.includes('modulepreload') || (rel.includes('preload') && element.getAttribute('as') === 'script');
+      };
+
+      // The attributes an element is written with; in a frozen snapshot, what the page shows rather than what it loaded with
+      const getAttributes = (element: Element): Array<[string, string]> => {
+        const attributes: Array<[string, string]> = Array.from(element.attributes).map(attr => [attr.name, attr.value]);
+        if (!frozen) return attributes;
+
+        const kept = attributes.filter(([name, value]) =>
+          !/^on/i.test(name) && !(/^(href|src|action|formaction)$/i.test(name) && /^\s*javascript:/i.test(value))
+        );
+        const set = (name: string, value: string | null) => {
+          const index = kept.findIndex(([existing]) => existing === name);
+          if (index >= 0) kept.splice(index, 1);
+          if (value !== null) kept.push([name, value]);
+        };
+        if (element instanceof HTMLInputElement) {
+          if (element.type === 'checkbox' || element.type === 'radio') {
+            set('checked', element.checked ? '' : null);
+          } else if (element.type !== 'password' && element.type !== 'file') {
+            set('value', element.value);
+          }
+        } else if (element instanceof HTMLOptionElement) {
+          set('selected', element.selected ? '' : null);
+        }
+        return kept;
+      };
+
+      const serializeChildren = (parent: Node): string => Array.from(parent.childNodes).map(serializeNode).join('');
+
+      const serializeShadowRoot = (root: ShadowRoot): string => {
+        shadowRoots++;
+        const attributes = root.delegatesFocus ? ' shadowrootdelegatesfocus=""' : '';
+        return `<template shadowrootmode="open"${attributes}>${serializeChildren(root)}${inlineAdoptedStyles(root.adoptedStyleSheets)}</template>`;
+      };
+
+      // A canvas as an image of its current drawing, sized like the canvas. Tainted canvases can't be read and stay blank.
+      const serializeCanvas = (canvas: HTMLCanvasElement, attributes: Array<[string, string]>): string | null => {
+        try {
+          const dataUrl = canvas.toDataURL('image/png');
+          canvases++;
+          const kept = attributes.filter(([name]) => name !== 'width' && name !== 'height');
+          kept.push(['src', dataUrl], ['width', String(canvas.width)], ['height', String(canvas.height)]);
+          return `<img${kept.map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`).join('')}>`;
+        } catch {
+          return null;
+        }
+      };
+
+      const serializeNode = (node: Node): string => {
+        switch (node.nodeType) {
+          case Node.ELEMENT_NODE: {
+            const element = node as Element;
+            const name = element.localName;
+            const isHtml = element.namespaceURI === HTML_NAMESPACE;
+            if (frozen && isHtml && (SCRIPT_ELEMENTS.has(name) || isScriptLink(element))) {
+              return '';
+            }
+            const attributeList = getAttributes(element);
+            if (frozen && element instanceof HTMLCanvasElement) {
+              const image = serializeCanvas(element, attributeList);
+              if (image) return image;
+            }
+            const attributes = attributeList.map(([attrName, value]) => ` ${attrName}="${escapeAttribute(value)}"`).join('');
+            if (VOID_ELEMENTS.has(name) && isHtml) {
+              return `<${name}${attributes}>`;
+            }
+
+            let content = element.shadowRoot ? serializeShadowRoot(element.shadowRoot) : '';
+            if (element instanceof HTMLTemplateElement) {
+              content += serializeChildren(element.content);
+            } else if (frozen && element instanceof HTMLStyleElement && element.sheet) {
+              content += escapeStyle(getRulesText(element.sheet));
+            } else if (frozen && element instanceof HTMLTextAreaElement) {
+              content += escapeText(element.value);
+            } else if (RAW_TEXT_ELEMENTS.has(name)) {
+              content += element.textContent || '';
+            } else {
+              content += serializeChildren(element);
+            }
+            if (element === document.head) {
+              content += inlineAdoptedStyles(document.adoptedStyleSheets);
+            }
+            return `<${name}${attributes}>${content}</${name}>`;
+          }
+          case Node.TEXT_NODE:
+            return escapeText((node as Text).data);
+          case Node.COMMENT_NODE:
+            return `<!--${(node as Comment).data}-->`;
+          case Node.DOCUMENT_TYPE_NODE: {
+            const doctype = node as DocumentType;
+            const publicId = doctype.publicId ? ` PUBLIC "${doctype.publicId}"` : '';
+            const systemId = doctype.systemId ? `${publicId ? '' : ' SYSTEM'} "${doctype.systemId}"` : '';
+            return `<!DOCTYPE ${doctype.name}${publicId}${systemId}>`;
+          }
+          default:
+            return '';
+        }
+      };
+
+      return { html: serializeChildren(document), shadowRoots, adoptedStyleSheets, canvases };
+    }, !!options.frozen);
+  }
+}
@@ -0,0 +1,86 @@
+import * as cheerio from 'cheerio';
+import zlib from 'zlib';
+import { CRAWLER_USER_AGENT_TOKEN } from './RobotsService.ts';
+import { HostScheduler } from './HostScheduler.ts';
+
+// Guard against sitemap indexes that fan out into thousands of files
+const MAX_SITEMAP_FILES = 50;
+
+/**
+ * Discovers page URLs from sitemap.xml files, sitemap indexes and gzipped sitemaps
+ */
+export class SitemapService {
+
+  /**
+   * Collect page URLs starting from the given sitemap locations (plus /sitemap.xml).
+   * Stops once maxUrls have been found.
+   */
+  async discoverUrls(startUrl: string, sitemapUrls: string[], maxUrls: number, scheduler: HostScheduler = new HostScheduler()): Promise<string[]> {
+    const defaultSitemap = new URL('/sitemap.xml', startUrl).href;
+    const pending = [...new Set([...sitemapUrls, defaultSitemap])];
+    const fetched = new Set<string>();
+    const pageUrls = new Set<string>();
+
+    while (pending.length > 0 && fetched.size < MAX_SITEMAP_FILES && pageUrls.size < maxUrls) {
+      const sitemapUrl = pending.shift()!;
+      if (fetched.has(sitemapUrl)) continue;
+      fetched.add(sitemapUrl);
+
+      const content = await this.fetchSitemap(sitemapUrl, scheduler);
+      if (!content) continue;
+
+      const { sitemaps, urls } = this.parseSitemap(content);
+      pending.push(...sitemaps);
+      for (const url of urls) {
+        if (pageUrls.size >= maxUrls) break;
+        pageUrls.add(url);
+      }
+      console.log(`🗺️ Sitemap ${sitemapUrl}: ${urls.length} URLs, ${sitemaps.length} nested sitemaps`);
+    }
+
+    return Array.from(pageUrls);
+  }
+
+  /**
+   * Parse a sitemap or sitemap index. Plain-text sitemaps (one URL per line) are accepted too.
+   */
+  parseSitemap(content: string): { sitemaps: string[]; urls: string[] } {
+    const trimmed = content.trim();
+
+    if (!trimmed.startsWith('<')) {
+      const urls = trimmed.split(/\r?\n/).map(line => line.trim()).filter(line => /^https?:\/\//i.test(line));
+      return { sitemaps: [], urls };
+    }
+
+    const $ = cheerio.load(trimmed, { xmlMode: true });
+    const locs = (selector: string) => $(selector)
+      .map((_, el) => $(el).text().trim())
+      .get()
+      .filter(loc => /^https?:\/\//i.test(loc));
+
+    return {
+      sitemaps: locs('sitemapindex > sitemap > loc'),
+      urls: locs('urlset > url > loc'),
+    };
+  }
+
+  private async fetchSitemap(url: string, scheduler: HostScheduler): Promise<string | null> {
+    try {
+      const response = await scheduler.fetch(url, {
+        headers: { 'User-Agent': CRAWLER_USER_AGENT_TOKEN },
+        signal: AbortSignal.timeout(15000),
+      });
+      if (!response.ok) {
+        return null;
+      }
+
+      const body = Buffer.from(await response.arrayBuffer());
+      // .xml.gz sitemaps arrive as gzip bytes (fetch only decodes Content-Encoding, not the file itself)
+      const isGzip = body.length > 2 && body[0] === 0x1f && body[1] === 0x8b;
+      return (isGzip ? zlib.gunzipSync(body) : body).toString('utf8');
+    } catch (error) {
+      console.log(`⚠️ Failed to fetch sitemap ${url}:`, error instanceof Error ? error.message : String(error));
+      return null;
+    }
+  }
+}
@@ -0,0 +1,80 @@
+export interface UrlNormalizerOptions {
+  stripFragment: boolean;
+  trackingParams: string[]; // Exact names, or prefixes ending in "*" (e.g. "utm_*")
+  sortQuery: boolean;
+  stripTrailingSlash: boolean;
+}
+
+export const DEFAULT_URL_NORMALIZER_OPTIONS: UrlNormalizerOptions = {
+  stripFragment: true,
+  trackingParams: ['utm_*', 'fbclid', 'gclid', 'dclid', 'msclkid', 'mc_cid', 'mc_eid', '_ga', '_hsenc', '_hsmi', 'ref_src'],
+  sortQuery: true,
+  stripTrailingSlash: true,
+};
+
+/**
+ * Short hash used to keep files for URLs that differ only by query string apart,
+ * e.g. products.html vs products-1x2y3z.html
+ */
+export function createUrlHash(url: string): string {
+  let hash = 0;
+  for (let i = 0; i < url.length; i++) {
+    const char = url.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash; // Convert to 32bit integer
+  }
+  return Math.abs(hash).toString(36).substring(0, 6);
+}
+
+/**
+ * Reduces the many spellings of a URL to one canonical form, so the crawl frontier
+ * and the page mappings treat "/About/?utm_source=x#team" and "/About" as the same page.
+ * Host lowercasing and default port removal come for free from the URL parser.
+ */
+export class UrlNormalizer {
+  private options: UrlNormalizerOptions;
+
+  constructor(options: Partial<UrlNormalizerOptions> = {}) {
+    this.options = { ...DEFAULT_URL_NORMALIZER_OPTIONS, ...options };
+  }
+
+  /**
+   * Normalize an absolute URL (or one relative to baseUrl). Unparseable input is returned as-is.
+   */
+  normalize(url: string, baseUrl?: string): string {
+    let urlObj: URL;
+    try {
+      urlObj = new URL(url, baseUrl);
+    } catch {
+      return url;
+    }
+    if (urlObj.protocol !== 'http:' && urlObj.protocol !== 'https:') {
+      return urlObj.href;
+    }
+
+    if (this.options.stripFragment) {
+      urlObj.hash = '';
+    }
+
+    const params = Array.from(urlObj.searchParams.entries())
+      .filter(([name]) => !this.isTrackingParam(name));
+    if (this.options.sortQuery) {
+      params.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    }
+    urlObj.search = params.length > 0 ? new URLSearchParams(params).toString() : '';
+
+    if (this.options.stripTrailingSlash && urlObj.pathname.length > 1 && urlObj.pathname.endsWith('/')) {
+      urlObj.pathname = urlObj.pathname.replace(/\/+$/, '') || '/';
+    }
+
+    return urlObj.href;
+  }
+
+  private isTrackingParam(name: string): boolean {
+    const lower = name.toLowerCase();
+    return this.options.trackingParams.some(pattern => {
+      const p = pattern.toLowerCase();
+      return p.endsWith('*') ? lower.startsWith(p.slice(0, -1)) : lower === p;
+    });
+  }
+}
@@ -1,52 +1,161 @@
 import * as cheerio from 'cheerio';
 import fs from 'fs/promises';
 import path from 'path';
+import { UrlNormalizer } from './UrlNormalizer.ts';
+import { RedirectHop } from './CaptureStore.ts';
+import { getStaticPagePath } from './ShadowDomSerializer.ts';
+import { ASSET_REFERENCES, getDocumentBaseUrl, isInlineReference, parseSrcset } from './AssetExtractor.ts';
+
+type RewritableFrame = { url: string; src?: string; html: string; staticHtml?: string; path: string };
+type RewritablePage = { url: string; html: string; staticHtml?: string; path: string; urlVariants?: string[]; redirects?: RedirectHop[]; frames?: RewritableFrame[] };
 
 export class UrlRewriter {
   
   async rewriteUrls(
-    pagesData: Array<{url: string, html: string, path: string}>, 
+    pagesData: RewritablePage[], 
     urlMappings: Map<string, string>, 
-    archiveId: string
+    archiveId: string,
+    normalizer: UrlNormalizer = new UrlNormalizer(),
+    shouldStop: () => boolean = () => false // Polled between files; the rest are left as they are
   ): Promise<void> {
     const archiveDir = path.join(process.cwd(), 'archives', archiveId);
     
     // Create page URL mappings for internal navigation
-    const pageUrlMappings = this.createPageUrlMappings(pagesData);
+    const pageUrlMappings = this.createPageUrlMappings(pagesData, normalizer);
+    const frameMappings = this.createFrameMappings(pagesData);
     
     for (const page of pagesData) {
-      const rewrittenHtml = this.rewriteHtmlUrls(page.html, urlMappings, pageUrlMappings, page.path, archiveId);
-      const filePath = path.join(archiveDir, page.path);
-      
-      // Ensure directory exists
-      await fs.mkdir(path.dirname(filePath), { recursive: true });
-      
-      await fs.writeFile(filePath, rewrittenHtml, 'utf8');
+      if (shouldStop()) {
+        console.log(`⏹️ Rewrite stop requested, leaving the remaining pages unwritten`);
+        return;
+      }
+      // Each iframe document is written like a page of its own, so its assets and nested frames resolve from its path
+      for (const document of [page, ...(page.frames || [])]) {
+        const rewrittenHtml = this.rewriteHtmlUrls(document.html, urlMappings, pageUrlMappings, document.path, archiveId, document.url, normalizer, frameMappings);
+        const filePath = path.join(archiveDir, document.path);
+        
+        // Ensure directory exists
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        
+        await fs.writeFile(filePath, rewrittenHtml, 'utf8');
+        
+        // The frozen snapshot sits next to it and is rewritten against the same path, so its relative URLs match
+        if (document.staticHtml) {
+          const rewrittenStaticHtml = this.rewriteHtmlUrls(document.staticHtml, urlMappings, pageUrlMappings, document.path, archiveId, document.url, normalizer, frameMappings);
+          await fs.writeFile(path.join(archiveDir, getStaticPagePath(document.path)), rewrittenStaticHtml, 'utf8');
+        }
+      }
     }
     
     // Also rewrite URLs in CSS files
-    await this.rewriteCssFiles(urlMappings, archiveId);
+    if (!shouldStop()) {
+      await this.rewriteCssFiles(urlMappings, archiveId);
+    }
   }
 
-  private createPageUrlMappings(pagesData: Array<{url: string, html: string, path: string}>): Map<string, string> {
+  private createPageUrlMappings(pagesData: RewritablePage[], normalizer: UrlNormalizer): Map<string, string> {
     const pageUrlMappings = new Map<string, string>();
     
     for (const page of pagesData) {
       pageUrlMappings.set(page.url, page.path);
       
-      // Also handle URLs with and without trailing slashes
-      const urlWithoutSlash = page.url.endsWith('/') ? page.url.slice(0, -1) : page.url;
-      const urlWithSlash = page.url.endsWith('/') ? page.url : page.url + '/';
+      // Also handle URLs with and without trailing slashes. The slash belongs to the path, so a
+      // query string (/products/?page=2) keeps each variant mapped to its own page.
+      const pageUrlObj = new URL(page.url);
+      const pathname = pageUrlObj.pathname;
+      pageUrlObj.pathname = pathname.endsWith('/') ? pathname.slice(0, -1) : pathname;
+      const urlWithoutSlash = pageUrlObj.href;
+      pageUrlObj.pathname = pathname.endsWith('/') ? pathname : pathname + '/';
+      const urlWithSlash = pageUrlObj.href;
       
       pageUrlMappings.set(urlWithoutSlash, page.path);
       pageUrlMappings.set(urlWithSlash, page.path);
+      
+      // Canonical form plus every spelling the crawler saw for this page
+      pageUrlMappings.set(normalizer.normalize(page.url), page.path);
+      (page.urlVariants || []).forEach(variant => pageUrlMappings.set(variant, page.path));
+      
+      // Links to a URL that redirected go straight to where it ended up
+      (page.redirects || []).forEach(hop => {
+        pageUrlMappings.set(hop.url, page.path);
+        pageUrlMappings.set(normalizer.normalize(hop.url), page.path);
+      });
     }
     
     return pageUrlMappings;
   }
 
-  private rewriteHtmlUrls(html: string, urlMappings: Map<string, string>, pageUrlMappings?: Map<string, string>, currentPagePath?: string, archiveId?: string): string {
+  /**
+   * Map every frame document by the URL it was loaded from and by its iframe's src
+   */
+  private createFrameMappings(pagesData: RewritablePage[]): Map<string, string> {
+    const frameMappings = new Map<string, string>();
+    for (const frame of pagesData.flatMap(page => page.frames || [])) {
+      frameMappings.set(frame.url, frame.path);
+      if (frame.src) {
+        frameMappings.set(frame.src, frame.path);
+      }
+    }
+    return frameMappings;
+  }
+
+  /**
+   * Find the archived page for a link, trying the raw href first and then its normalized absolute form
+   */
+  private lookupPagePath(href: string, pageUrlMappings: Map<string, string>, pageUrl?: string, normalizer?: UrlNormalizer): string | undefined {
+    if (pageUrlMappings.has(href)) {
+      return pageUrlMappings.get(href);
+    }
+    if (!pageUrl || !normalizer || href.startsWith('#') || /^(mailto|tel|javascript|data):/i.test(href)) {
+      return undefined;
+    }
+    return pageUrlMappings.get(normalizer.normalize(href, pageUrl));
+  }
+
+  /**
+   * Local copy of a linked file that was saved as an asset, by exact href or resolved against the page
+   */
+  private lookupDocumentPath(href: string, urlMappings: Map<string, string>, pageUrl?: string): string | undefined {
+    if (urlMappings.has(href)) {
+      return urlMappings.get(href);
+    }
+    if (!pageUrl || href.startsWith('#') || /^(mailto|tel|javascript|data):/i.test(href)) {
+      return undefined;
+    }
+    try {
+      const url = new URL(href, pageUrl);
+      url.hash = '';
+      return urlMappings.get(url.href);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Where an asset reference points in the archive, keeping its fragment, or undefined when
+   * the asset wasn't saved
+   */
+  private lookupAssetReference(value: string, urlMappings: Map<string, string>, documentBase?: string, currentPagePath?: string, archiveId?: string): string | undefined {
+    if (isInlineReference(value)) {
+      return undefined;
+    }
+    const mappedPath = this.lookupDocumentPath(value, urlMappings, documentBase);
+    if (!mappedPath) {
+      return undefined;
+    }
+    const hashIndex = value.indexOf('#');
+    const localPath = hashIndex >= 0 ? mappedPath + value.slice(hashIndex) : mappedPath;
+    // For pages with base tags, use absolute paths relative to archive root
+    if (archiveId && currentPagePath && currentPagePath !== 'index.html') {
+      return localPath;
+    }
+    return currentPagePath ? this.calculateRelativePath(currentPagePath, localPath) : localPath;
+  }
+
+  private rewriteHtmlUrls(html: string, urlMappings: Map<string, string>, pageUrlMappings?: Map<string, string>, currentPagePath?: string, archiveId?: string, pageUrl?: string, normalizer?: UrlNormalizer, frameMappings?: Map<string, string>): string {
     const $ = cheerio.load(html);
+    // Relative references resolve against the page's own <base href>, which is replaced below
+    const documentBase = pageUrl ? getDocumentBaseUrl($, pageUrl) : undefined;
     
     // Add base tag to fix relative URL resolution for subpages
     if (archiveId && currentPagePath) {
@@ -214,6 +323,72 @@ export class UrlRewriter {
       }
     });
 
+    // Rewrite the responsive images, media, embeds, SVG references, social images and manifest extracted with the page
+    let rewrittenReferences = 0;
+    for (const reference of ASSET_REFERENCES) {
+      $(reference.selector).each((_, el) => {
+        const value = $(el).attr(reference.attribute)?.trim();
+        if (!value) return;
+        if (reference.srcset) {
+          const candidates = parseSrcset(value);
+          const rewritten = candidates.map(candidate => ({
+            ...candidate,
+            url: this.lookupAssetReference(candidate.url, urlMappings, documentBase, currentPagePath, archiveId) ?? candidate.url,
+          }));
+          if (rewritten.some((candidate, i) => candidate.url !== candidates[i].url)) {
+            $(el).attr(reference.attribute, rewritten.map(({ url, descriptor }) => (descriptor ? `${url} ${descriptor}` : url)).join(', '));
+            rewrittenReferences++;
+          }
+        } else {
+          const localPath = this.lookupAssetReference(value, urlMappings, documentBase, currentPagePath, archiveId);
+          if (localPath) {
+            $(el).attr(reference.attribute, localPath);
+            rewrittenReferences++;
+          }
+        }
+      });
+    }
+
+    // Rewrite url() references in style attributes
+    $('[style]').each((_, el) => {
+      const style = $(el).attr('style');
+      if (style && style.includes('url(')) {
+        const rewrittenStyle = style.replace(/url\((['"]?)([^'")\s]+)\1\)/g, (match, quote, url) => {
+          const localPath = this.lookupAssetReference(url, urlMappings, documentBase, currentPagePath, archiveId);
+          return localPath ? `url(${quote}${localPath}${quote})` : match;
+        });
+        if (rewrittenStyle !== style) {
+          $(el).attr('style', rewrittenStyle);
+          rewrittenReferences++;
+        }
+      }
+    });
+    if (rewrittenReferences > 0) {
+      console.log(`🖼️ Rewritten ${rewrittenReferences} media, srcset and style references`);
+    }
+
+    // Point iframes at their archived documents
+    if (frameMappings && pageUrl) {
+      $('iframe[src], frame[src]').each((_, el) => {
+        const src = $(el).attr('src');
+        let framePath: string | undefined;
+        try {
+          framePath = src ? frameMappings.get(new URL(src, pageUrl).href) : undefined;
+        } catch {
+          framePath = undefined;
+        }
+        if (src && framePath) {
+          // For pages with base tags, use absolute paths relative to archive root
+          if (archiveId && currentPagePath && currentPagePath !== 'index.html') {
+            $(el).attr('src', framePath);
+          } else {
+            $(el).attr('src', currentPagePath ? this.calculateRelativePath(currentPagePath, framePath) : framePath);
+          }
+          console.log(`🪟 Rewritten frame: ${src} -> ${framePath}`);
+        }
+      });
+    }
+
     // Rewrite inline CSS
     $('style').each((_, el) => {
       const css = $(el).html();
@@ -236,12 +411,15 @@ export class UrlRewriter {
       }
     });
     
-    // Rewrite internal page navigation links
+    // Rewrite internal page navigation links, and links to documents (PDFs, downloads) saved with the assets
     if (pageUrlMappings) {
       $('a[href]').each((_, el) => {
         const href = $(el).attr('href');
-        if (href && pageUrlMappings.has(href)) {
-          const localPageFile = pageUrlMappings.get(href)!;
+        const mappedPage = href ? this.lookupPagePath(href, pageUrlMappings, pageUrl, normalizer) ?? this.lookupDocumentPath(href, urlMappings, pageUrl) : undefined;
+        if (href && mappedPage) {
+          // Keep in-page anchors working after the fragment was normalized away
+          const hashIndex = href.indexOf('#');
+          const localPageFile = hashIndex >= 0 ? mappedPage + href.slice(hashIndex) : mappedPage;
           // For pages with base tags, use absolute paths relative to archive root
           if (archiveId && currentPagePath && currentPagePath !== 'index.html') {
             $(el).attr('href', localPageFile);
@@ -0,0 +1,186 @@
+import zlib from 'zlib';
+import AdmZip from 'adm-zip';
+
+export interface WarcRecord {
+  type: string;
+  targetUri?: string;
+  date?: string;
+  headers: Record<string, string>;
+  block: Buffer;
+}
+
+export interface HttpResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: Buffer; // Transfer and content encodings removed
+}
+
+/**
+ * Parses WARC files (plain or gzipped) and WACZ packages produced by other tools
+ */
+export class WarcReader {
+
+  /**
+   * Read every WARC record from a .warc, .warc.gz or .wacz file
+   */
+  readFile(data: Buffer, filename: string): { records: WarcRecord[]; mainPageUrl?: string } {
+    if (filename.toLowerCase().endsWith('.wacz') || this.isZip(data)) {
+      return this.readWacz(data);
+    }
+    return { records: this.parseWarc(data) };
+  }
+
+  parseWarc(data: Buffer): WarcRecord[] {
+    // zlib handles the concatenated gzip members that .warc.gz files are made of
+    const raw = this.isGzip(data) ? zlib.gunzipSync(data) : data;
+    const records: WarcRecord[] = [];
+    let offset = 0;
+
+    while (offset < raw.length) {
+      // Skip the blank lines that separate records
+      while (offset < raw.length && (raw[offset] === 0x0d || raw[offset] === 0x0a)) {
+        offset++;
+      }
+      if (offset >= raw.length) break;
+
+      const headerEnd = raw.indexOf('\r\n\r\n', offset);
+      if (headerEnd === -1) {
+        throw new Error(`Truncated WARC record header at byte ${offset}`);
+      }
+
+      const [versionLine, ...headerLines] = raw.subarray(offset, headerEnd).toString('utf8').split('\r\n');
+      if (!versionLine.startsWith('WARC/')) {
+        throw new Error(`Invalid WARC record at byte ${offset}: expected version line, got "${versionLine.slice(0, 20)}"`);
+      }
+
+      const headers = this.parseHeaderLines(headerLines);
+      const length = Number(headers['content-length']);
+      if (!Number.isFinite(length)) {
+        throw new Error(`WARC record at byte ${offset} has no Content-Length`);
+      }
+
+      const blockStart = headerEnd + 4;
+      records.push({
+        type: headers['warc-type'] || 'unknown',
+        targetUri: headers['warc-target-uri']?.replace(/^<|>$/g, ''),
+        date: headers['warc-date'],
+        headers,
+        block: raw.subarray(blockStart, blockStart + length),
+      });
+      offset = blockStart + length;
+    }
+
+    return records;
+  }
+
+  /**
+   * Split an application/http response block into status, headers and decoded body
+   */
+  parseHttpResponse(block: Buffer): HttpResponse | null {
+    const headerEnd = block.indexOf('\r\n\r\n');
+    if (headerEnd === -1) return null;
+
+    const [statusLine, ...headerLines] = block.subarray(0, headerEnd).toString('latin1').split('\r\n');
+    const match = statusLine.match(/^HTTP\/[\d.]+\s+(\d{3})\s*(.*)$/);
+    if (!match) return null;
+
+    const headers = this.parseHeaderLines(headerLines);
+    let body: Buffer = block.subarray(headerEnd + 4);
+
+    if (headers['transfer-encoding']?.toLowerCase().includes('chunked')) {
+      body = this.dechunk(body);
+    }
+    body = this.decodeContent(body, headers['content-encoding']);
+
+    return { status: Number(match[1]), statusText: match[2], headers, body };
+  }
+
+  /**
+   * Pull the request method and headers out of an application/http request block
+   */
+  parseHttpRequest(block: Buffer): { method: string; headers: Record<string, string> } | null {
+    const headerEnd = block.indexOf('\r\n\r\n');
+    const head = block.subarray(0, headerEnd === -1 ? block.length : headerEnd).toString('latin1');
+    const [requestLine, ...headerLines] = head.split('\r\n');
+    const method = requestLine.split(' ')[0];
+    if (!method) return null;
+    return { method, headers: this.parseHeaderLines(headerLines) };
+  }
+
+  private readWacz(data: Buffer): { records: WarcRecord[]; mainPageUrl?: string } {
+    const zip = new AdmZip(data);
+    const records: WarcRecord[] = [];
+    let mainPageUrl: string | undefined;
+
+    for (const entry of zip.getEntries()) {
+      const name = entry.entryName.toLowerCase();
+      if (name.startsWith('archive/') && (name.endsWith('.warc') || name.endsWith('.warc.gz'))) {
+        records.push(...this.parseWarc(entry.getData()));
+      } else if (name === 'datapackage.json') {
+        try {
+          mainPageUrl = JSON.parse(entry.getData().toString('utf8')).mainPageUrl;
+        } catch {
+          // A broken datapackage only costs us the main page hint
+        }
+      }
+    }
+
+    return { records, mainPageUrl };
+  }
+
+  private parseHeaderLines(lines: string[]): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const line of lines) {
+      const colon = line.indexOf(':');
+      if (colon <= 0) continue;
+      const name = line.slice(0, colon).trim().toLowerCase();
+      const value = line.slice(colon + 1).trim();
+      headers[name] = headers[name] !== undefined ? `${headers[name]}\n${value}` : value;
+    }
+    return headers;
+  }
+
+  private dechunk(body: Buffer): Buffer {
+    const chunks: Buffer[] = [];
+    let offset = 0;
+
+    while (offset < body.length) {
+      const lineEnd = body.indexOf('\r\n', offset);
+      if (lineEnd === -1) break;
+      const size = parseInt(body.subarray(offset, lineEnd).toString('latin1'), 16);
+      if (!Number.isFinite(size) || size === 0) break;
+      chunks.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+      offset = lineEnd + 2 + size + 2;
+    }
+
+    return chunks.length > 0 ? Buffer.concat(chunks) : body;
+  }
+
+  private decodeContent(body: Buffer, encoding?: string): Buffer {
+    try {
+      switch (encoding?.toLowerCase().trim()) {
+        case 'gzip':
+        case 'x-gzip':
+          return zlib.gunzipSync(body);
+        case 'deflate':
+          return zlib.inflateSync(body);
+        case 'br':
+          return zlib.brotliDecompressSync(body);
+        default:
+          return body;
+      }
+    } catch {
+      // Some tools store already-decoded bodies but keep the original header
+      return body;
+    }
+  }
+
+  private isGzip(data: Buffer): boolean {
+    return data.length > 2 && data[0] === 0x1f && data[1] === 0x8b;
+  }
+
+  private isZip(data: Buffer): boolean {
+    return data.length > 4 && data.readUInt32LE(0) === 0x04034b50;
+  }
+}
@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { CaptureRecord, RedirectHop } from './CaptureStore.ts';
+
+// Headers that describe the transfer rather than the payload. Our captured bodies are
+// already decoded, so these would no longer be true of the bytes we write.
+const TRANSFER_HEADERS = ['content-encoding', 'transfer-encoding', 'content-length'];
+
+/**
+ * Writes WARC/1.1 records, one gzip member per record, so the output is a valid .warc.gz
+ */
+export class WarcWriter {
+  private output: NodeJS.WritableStream;
+  private gzip: boolean;
+
+  constructor(output: NodeJS.WritableStream, options: { gzip?: boolean } = {}) {
+    this.output = output;
+    this.gzip = options.gzip ?? true;
+  }
+
+  async writeWarcinfo(filename: string, fields: Record<string, string>): Promise<string> {
+    const block = Buffer.from(
+      Object.entries(fields).map(([name, value]) => `${name}: ${value}\r\n`).join(''),
+      'utf8'
+    );
+    return this.writeRecord({
+      'WARC-Type': 'warcinfo',
+      'WARC-Filename': filename,
+      'Content-Type': 'application/warc-fields',
+    }, block);
+  }
+
+  async writeRequest(record: CaptureRecord, concurrentTo?: string): Promise<string> {
+    const url = new URL(record.url);
+    const headers = { host: url.host, ...record.requestHeaders };
+    const lines = [`${record.method} ${url.pathname}${url.search} HTTP/1.1`];
+    for (const [name, value] of Object.entries(headers)) {
+      // Skip HTTP/2 pseudo headers (":authority", ":path" ...) reported by the browser
+      if (name.startsWith(':')) continue;
+      value.split('\n').forEach(v => lines.push(`${name}: ${v}`));
+    }
+    const block = Buffer.from(lines.join('\r\n') + '\r\n\r\n', 'utf8');
+
+    return this.writeRecord({
+      'WARC-Type': 'request',
+      'WARC-Target-URI': record.url,
+      'WARC-Date': this.formatDate(record.capturedAt),
+      ...(concurrentTo ? { 'WARC-Concurrent-To': concurrentTo } : {}),
+      'Content-Type': 'application/http;msgtype=request',
+    }, block);
+  }
+
+  async writeResponse(record: CaptureRecord, body: Buffer): Promise<string> {
+    const lines = [`HTTP/1.1 ${record.status} ${record.statusText}`.trimEnd()];
+    for (const [name, value] of Object.entries(record.responseHeaders)) {
+      if (name.startsWith(':') || TRANSFER_HEADERS.includes(name.toLowerCase())) continue;
+      value.split('\n').forEach(v => lines.push(`${name}: ${v}`));
+    }
+    lines.push(`content-length: ${body.length}`);
+    const block = Buffer.concat([Buffer.from(lines.join('\r\n') + '\r\n\r\n', 'utf8'), body]);
+
+    return this.writeRecord({
+      'WARC-Type': 'response',
+      'WARC-Target-URI': record.url,
+      'WARC-Date': this.formatDate(record.capturedAt),
+      'WARC-Payload-Digest': this.digest(body),
+      'Content-Type': 'application/http;msgtype=response',
+    }, block);
+  }
+
+  /**
+   * A redirect the browser followed, as a bodiless 3xx response for the URL it came from.
+   * Without its status there is no response to write, only a metadata record of where it led.
+   */
+  async writeRedirect(hop: RedirectHop, capturedAt: string): Promise<string> {
+    if (hop.status === undefined) {
+      return this.writeRecord({
+        'WARC-Type': 'metadata',
+        'WARC-Target-URI': hop.url,
+        'WARC-Date': this.formatDate(capturedAt),
+        'Content-Type': 'application/warc-fields',
+      }, Buffer.from(`redirect-location: ${hop.location}\r\n`, 'utf8'));
+    }
+    const lines = [`HTTP/1.1 ${hop.status}`, `location: ${hop.location}`, 'content-length: 0'];
+    const block = Buffer.from(lines.join('\r\n') + '\r\n\r\n', 'utf8');
+
+    return this.writeRecord({
+      'WARC-Type': 'response',
+      'WARC-Target-URI': hop.url,
+      'WARC-Date': this.formatDate(capturedAt),
+      'Content-Type': 'application/http;msgtype=response',
+    }, block);
+  }
+
+  async writeMetadata(record: CaptureRecord, concurrentTo: string): Promise<string> {
+    const lines: string[] = [];
+    if (record.foundOn) {
+      lines.push(`via: ${record.foundOn}`);
+    }
+    (record.outlinks || []).forEach(link => lines.push(`outlink: ${link}`));
+    (record.behaviors || []).forEach(behavior =>
+      lines.push(`behavior: ${behavior.name} ${behavior.status} ${behavior.durationMs}ms ${behavior.detail.replace(/\s+/g, ' ')}`)
+    );
+    lines.push(`capture-kind: ${record.kind}`);
+
+    return this.writeRecord({
+      'WARC-Type': 'metadata',
+      'WARC-Target-URI': record.url,
+      'WARC-Date': this.formatDate(record.capturedAt),
+      'WARC-Concurrent-To': concurrentTo,
+      'Content-Type': 'application/warc-fields',
+    }, Buffer.from(lines.join('\r\n') + '\r\n', 'utf8'));
+  }
+
+  private async writeRecord(fields: Record<string, string>, block: Buffer): Promise<string> {
+    const recordId = `<urn:uuid:${crypto.randomUUID()}>`;
+    const headers: Record<string, string> = {
+      'WARC-Record-ID': recordId,
+      'WARC-Date': this.formatDate(new Date().toISOString()),
+      ...fields,
+      'WARC-Block-Digest': this.digest(block),
+      'Content-Length': String(block.length),
+    };
+
+    const head = ['WARC/1.1', ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`)].join('\r\n');
+    const raw = Buffer.concat([Buffer.from(head + '\r\n\r\n', 'utf8'), block, Buffer.from('\r\n\r\n', 'utf8')]);
+
+    await this.write(this.gzip ? zlib.gzipSync(raw) : raw);
+    return recordId;
+  }
+
+  private write(chunk: Buffer): Promise<void> {
+    return new Promise(resolve => {
+      if (this.output.write(chunk)) {
+        resolve();
+      } else {
+        this.output.once('drain', () => resolve());
+      }
+    });
+  }
+
+  /**
+   * WARC dates are W3C-ISO8601 with second precision
+   */
+  private formatDate(isoDate: string): string {
+    return new Date(isoDate).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  }
+
+  /**
+   * sha1 digest in the base32 form used by Heritrix, pywb and friends
+   */
+  private digest(data: Buffer): string {
+    const hash = crypto.createHash('sha1').update(data).digest();
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+    let bits = 0;
+    let value = 0;
+    let encoded = '';
+
+    for (const byte of hash) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        encoded += alphabet[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      encoded += alphabet[(value << (5 - bits)) & 31];
+    }
+
+    return `sha1:${encoded}`;
+  }
+}
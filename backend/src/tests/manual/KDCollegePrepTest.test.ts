@@ -119,7 +119,7 @@ describe('KD College Prep Website Test', () => {
       let attempts = 0;
       const maxAttempts = 60;
       
-      while (status?.status === 'processing' && attempts < maxAttempts) {
+      while ((status?.status === 'queued' || status?.status === 'processing') && attempts < maxAttempts) {
         await new Promise(resolve => setTimeout(resolve, 1000));
         status = await archiveService.getArchiveStatus(result.id);
         attempts++;
@@ -0,0 +1,118 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ArchiveService } from '../../services/ArchiveService.ts';
+import { CrawlWebsiteOptions, PageData } from '../../services/archive/CrawlerService.ts';
+
+/**
+ * Stands in for the browser crawl: records one page, then keeps "crawling" until the test
+ * lets it finish, so pause and cancel requests arrive while the job is running
+ */
+class HeldCrawler {
+  calls: CrawlWebsiteOptions[] = [];
+  private finishCurrent?: () => void;
+
+  async crawlWebsite(url: string, options: CrawlWebsiteOptions): Promise<PageData[]> {
+    this.calls.push(options);
+    if (options.resumeFrom) {
+      return options.resumeFrom.pages.map(({ page }) => page);
+    }
+    const page: PageData = { url, html: '<html><body>Home</body></html>', title: 'Home', links: [], path: 'index.html' };
+    await options.onPageCrawled?.({ sequence: 0, page }, {
+      queue: [{ url: `${url}about`, depth: 1, via: 'link' }],
+      visited: [url],
+      variants: {},
+      sequence: 1,
+      bytesFetched: 0,
+      capturedUrls: [],
+    });
+    await new Promise<void>(resolve => { this.finishCurrent = resolve; });
+    return [page];
+  }
+
+  finish(): void {
+    this.finishCurrent?.();
+  }
+}
+
+describe('ArchiveService job controls', () => {
+  const originalCwd = process.cwd();
+  let tempDir: string;
+  let service: ArchiveService;
+  let crawler: HeldCrawler;
+
+  const waitFor = async (condition: () => boolean | Promise<boolean>) => {
+    for (let waited = 0; !(await condition()); waited += 10) {
+      if (waited > 5000) throw new Error('Timed out waiting for the archive job');
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  };
+  const statusOf = async (id: string) => (await service.getArchiveStatus(id))!.status;
+  const problemWith = async (id: string, action: 'pause' | 'cancel' | 'resume') =>
+    service.getJobActionProblem((await service.getArchiveStatus(id))!, action);
+
+  // A crawl that is running and has checkpointed its first page
+  const startCrawl = async () => {
+    const { id } = await service.createArchive('https://example.com/');
+    await waitFor(() => crawler.calls.length > 0 && fs.stat(path.join(tempDir, 'data', 'checkpoints', id, 'pages.jsonl')).then(() => true, () => false));
+    return id;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'archive-service-'));
+    process.chdir(tempDir);
+    service = new ArchiveService();
+    crawler = new HeldCrawler();
+    Object.assign(service, { crawler });
+  });
+
+  afterEach(async () => {
+    crawler.finish();
+    process.chdir(originalCwd);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should pause a running crawl once it stops, and refuse a second pause meanwhile', async () => {
+    const id = await startCrawl();
+
+    expect((await service.pauseArchive(id))?.status).toBe('pausing');
+    expect(await problemWith(id, 'pause')).toEqual({ conflict: true, message: 'Archive is already being paused' });
+    expect(await problemWith(id, 'resume')).toMatchObject({ conflict: true });
+
+    crawler.finish();
+    await waitFor(async () => (await statusOf(id)) === 'paused');
+    expect(await problemWith(id, 'pause')).toMatchObject({ conflict: true, message: expect.stringContaining('only running crawls') });
+  });
+
+  it('should let a cancel override a pause that is still pending', async () => {
+    const id = await startCrawl();
+    await service.pauseArchive(id);
+
+    expect(await problemWith(id, 'cancel')).toBeNull();
+    expect((await service.cancelArchive(id, false))?.status).toBe('cancelling');
+    expect(await problemWith(id, 'cancel')).toEqual({ conflict: true, message: 'Archive is already being cancelled' });
+    expect(await problemWith(id, 'pause')).toEqual({ conflict: true, message: 'Archive is already being cancelled' });
+
+    crawler.finish();
+    await waitFor(async () => (await statusOf(id)) === 'cancelled');
+    await expect(fs.stat(path.join(tempDir, 'data', 'checkpoints', id))).rejects.toThrow();
+  });
+
+  it('should resume a paused crawl from its checkpoint and refuse to resume it again', async () => {
+    const id = await startCrawl();
+    await service.pauseArchive(id);
+    crawler.finish();
+    await waitFor(async () => (await statusOf(id)) === 'paused');
+
+    expect(await problemWith(id, 'resume')).toBeNull();
+    expect((await service.resumeArchive(id))?.status).toBe('resumed');
+    await waitFor(async () => (await statusOf(id)) === 'completed');
+
+    const resumed = crawler.calls[1].resumeFrom;
+    expect(resumed?.pages.map(({ page }) => page.url)).toEqual(['https://example.com/']);
+    expect(resumed?.frontier.queue.map(({ url }) => url)).toEqual(['https://example.com/about']);
+    expect(await problemWith(id, 'resume')).toEqual({ conflict: true, message: 'Archive is completed; only paused or interrupted archives can be resumed' });
+    expect(await problemWith(id, 'cancel')).toMatchObject({ conflict: true });
+    expect(await service.resumeArchive(id)).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ArchiveService } from '../../services/ArchiveService.ts';
+import { ViewerService } from '../../services/ViewerService.ts';
+
+describe('ViewerService renditions', () => {
+  const originalCwd = process.cwd();
+  const archiveId = 'renditions-archive';
+  let tempDir: string;
+  let viewer: ViewerService;
+  let productsPath: string;
+
+  // Writes a rendition file whose contents name the page it belongs to
+  const writeRendition = async (file: string) => {
+    await fs.mkdir(path.dirname(path.join(tempDir, 'archives', archiveId, file)), { recursive: true });
+    await fs.writeFile(path.join(tempDir, 'archives', archiveId, file), file);
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'viewer-service-'));
+    process.chdir(tempDir);
+    const archiveService = new ArchiveService();
+    productsPath = archiveService.resolvePagePath('products?page=2');
+
+    const pages = [
+      { url: 'https://example.com/', path: 'index.html', title: 'Home', screenshot: 'index.screenshot.png' },
+      { url: 'https://example.com/about/', path: 'about/index.html', title: 'About', screenshot: 'about/index.screenshot.png' },
+      { url: 'https://example.com/blog/post', path: 'blog/post.html', title: 'Post', screenshot: 'blog/post.screenshot.png', pdf: 'blog/post.pdf' },
+      { url: 'https://example.com/products?page=2', path: productsPath, title: 'Products', screenshot: productsPath.replace(/\.html$/, '.screenshot.png') },
+    ];
+    for (const page of pages) {
+      await writeRendition(page.screenshot);
+      if (page.pdf) await writeRendition(page.pdf);
+    }
+    await fs.mkdir(path.join(tempDir, 'data'), { recursive: true });
+    await fs.writeFile(path.join(tempDir, 'data', 'archives.json'), JSON.stringify([[archiveId, {
+      id: archiveId,
+      url: 'https://example.com/',
+      status: 'completed',
+      createdAt: new Date().toISOString(),
+      pages,
+    }]]));
+
+    viewer = new ViewerService(archiveService);
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const renditionOf = async (kind: 'screenshot' | 'pdf', pagePath?: string) =>
+    (await viewer.getPageRendition(archiveId, kind, pagePath))?.data.toString();
+
+  it('should use the first page without a page path', async () => {
+    expect(await renditionOf('screenshot')).toBe('index.screenshot.png');
+  });
+
+  it('should find a page by the path it is viewed at', async () => {
+    expect(await renditionOf('screenshot', 'about/')).toBe('about/index.screenshot.png');
+    expect(await renditionOf('screenshot', '/about/index.html')).toBe('about/index.screenshot.png');
+    expect(await renditionOf('screenshot', 'blog/post')).toBe('blog/post.screenshot.png');
+    expect(await renditionOf('pdf', 'blog/post.html')).toBe('blog/post.pdf');
+  });
+
+  it('should find the query variant of a page', async () => {
+    expect(await renditionOf('screenshot', 'products?page=2')).toBe(productsPath.replace(/\.html$/, '.screenshot.png'));
+    expect(await renditionOf('screenshot', 'products?page=3')).toBeUndefined();
+  });
+
+  it('should return nothing for a page without that rendition', async () => {
+    expect(await renditionOf('pdf', 'about/')).toBeUndefined();
+    expect(await renditionOf('screenshot', 'missing')).toBeUndefined();
+    expect(await viewer.getPageRendition('no-such-archive', 'screenshot')).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import fs from 'fs/promises';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { AssetDownloader } from '../../../services/archive/AssetDownloader.ts';
+import { CapturedResponse } from '../../../services/archive/CaptureStore.ts';
+
+describe('AssetDownloader documents', () => {
+  const originalCwd = process.cwd();
+  const limits = { maxBytes: 1024, mimeTypes: ['application/pdf'] };
+  let server: http.Server;
+  let baseUrl: string;
+  let tempDir: string;
+  let downloader: AssetDownloader;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+      if (pathname === '/small.pdf') {
+        res.writeHead(200, { 'content-type': 'application/pdf' });
+        res.end(Buffer.alloc(512));
+      } else if (pathname === '/declared-large.pdf') {
+        res.writeHead(200, { 'content-type': 'application/pdf', 'content-length': '4096' });
+        res.end(Buffer.alloc(4096));
+      } else if (pathname === '/streamed-large.pdf') {
+        // Chunked, so the size is only known once the body has grown past the cap
+        res.writeHead(200, { 'content-type': 'application/pdf' });
+        for (let i = 0; i < 4; i++) res.write(Buffer.alloc(512));
+        res.end();
+      } else {
+        res.writeHead(200, { 'content-type': 'text/plain' });
+        res.end('not a document');
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'documents-'));
+    process.chdir(tempDir);
+    downloader = new AssetDownloader();
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should keep a document within maxBytes', async () => {
+    const result = await downloader.captureDocument(`${baseUrl}/small.pdf`, 'a1', limits);
+    expect(result).toMatchObject({ url: `${baseUrl}/small.pdf`, size: 512 });
+  });
+
+  it('should skip documents bigger than maxBytes, by Content-Length or while reading the body', async () => {
+    const skipped = { skipped: 'Document is larger than documents.maxBytes (1024 bytes)' };
+    expect(await downloader.captureDocument(`${baseUrl}/declared-large.pdf`, 'a1', limits)).toEqual(skipped);
+    expect(await downloader.captureDocument(`${baseUrl}/streamed-large.pdf`, 'a1', limits)).toEqual(skipped);
+  });
+
+  it('should apply the same limits to a document the browser already loaded', async () => {
+    const loaded = (body: Buffer, contentType = 'application/pdf'): CapturedResponse => ({
+      url: `${baseUrl}/loaded.pdf`, method: 'GET', status: 200, statusText: 'OK',
+      requestHeaders: {}, responseHeaders: { 'content-type': contentType }, body,
+    });
+
+    expect(await downloader.keepDocument(loaded(Buffer.alloc(512)), 'a1', limits)).toMatchObject({ size: 512 });
+    expect(await downloader.keepDocument(loaded(Buffer.alloc(2048)), 'a1', limits)).toHaveProperty('skipped');
+    expect(await downloader.keepDocument(loaded(Buffer.from('text'), 'text/plain'), 'a1', limits))
+      .toEqual({ skipped: 'Document type text/plain is not in documents.mimeTypes' });
+  });
+});
@@ -1,4 +1,4 @@
-import { AssetExtractor } from '../../../services/archive/AssetExtractor.ts';
+import { AssetExtractor, parseSrcset } from '../../../services/archive/AssetExtractor.ts';
 
 describe('AssetExtractor', () => {
   let extractor: AssetExtractor;
@@ -32,6 +32,87 @@ describe('AssetExtractor', () => {
       expect(assets).toHaveLength(1);
       expect(assets[0].type).toBe('image');
     });
+
+    it('should extract responsive images, media, embeds and meta assets', async () => {
+      const html = `
+        <head>
+          <meta property="og:image" content="https://cdn.amazon.com/share.jpg">
+          <link rel="manifest" href="/site.webmanifest">
+        </head>
+        <body>
+          <picture>
+            <source type="image/avif" srcset="/hero.avif 1x, /hero@2x.avif 2x">
+            <img src="/hero.jpg" srcset="/hero-480.jpg 480w, /hero-960.jpg 960w">
+          </picture>
+          <video poster="/poster.jpg"><source src="/clip.webm" type="video/webm"><track src="/captions.vtt"></video>
+          <audio src="/theme.mp3"></audio>
+          <object data="/brochure.pdf"></object>
+          <embed src="/widget.swf">
+          <svg><image href="/map.png"/><use xlink:href="/sprite.svg#cart"/><use href="#local"/></svg>
+          <div style="background: url('/banner.png') no-repeat"></div>
+        </body>`;
+      const assets = await extractor.parseAssetsFromHtml(html, 'https://amazon.com/shop/');
+      const byUrl = Object.fromEntries(assets.map(asset => [asset.url.replace('https://amazon.com', ''), asset.type]));
+
+      expect(byUrl).toEqual({
+        '/hero.jpg': 'image',
+        '/hero.avif': 'image',
+        '/hero@2x.avif': 'image',
+        '/hero-480.jpg': 'image',
+        '/hero-960.jpg': 'image',
+        '/clip.webm': 'media',
+        '/theme.mp3': 'media',
+        '/poster.jpg': 'image',
+        '/captions.vtt': 'other',
+        '/brochure.pdf': 'other',
+        '/widget.swf': 'other',
+        '/map.png': 'image',
+        '/sprite.svg': 'image',
+        'https://cdn.amazon.com/share.jpg': 'image',
+        '/site.webmanifest': 'other',
+        '/banner.png': 'image',
+      });
+    });
+
+    it('should resolve relative references against the base element', async () => {
+      const html = '<base href="https://static.amazon.com/v2/"><img src="logo.png" srcset="logo@2x.png 2x"><video src="intro.mp4"></video>';
+      const assets = await extractor.parseAssetsFromHtml(html, 'https://amazon.com/deals/today');
+
+      expect(assets.map(asset => asset.url)).toEqual([
+        'https://static.amazon.com/v2/logo.png',
+        'https://static.amazon.com/v2/logo@2x.png',
+        'https://static.amazon.com/v2/intro.mp4',
+      ]);
+      expect(new Set(assets.map(asset => asset.foundOn))).toEqual(new Set(['https://amazon.com/deals/today']));
+    });
+  });
+
+  describe('extractAssetsFromPages', () => {
+    it('should resolve inline styles and scripts against the base element but record the page they were found on', async () => {
+      const html = [
+        '<base href="https://static.example.com/v2/">',
+        '<style>.hero { background: url(hero.jpg); }</style>',
+        '<div style="background: url(tile.png)"></div>',
+        '<script>const icon = "icon.svg";</script>',
+      ].join('');
+      const assets = await extractor.extractAssetsFromPages([{ url: 'https://example.com/about', html }]);
+
+      expect(assets.map(asset => [asset.url, asset.foundOn]).sort()).toEqual([
+        ['https://static.example.com/v2/hero.jpg', 'https://example.com/about'],
+        ['https://static.example.com/v2/icon.svg', 'https://example.com/about'],
+        ['https://static.example.com/v2/tile.png', 'https://example.com/about'],
+      ]);
+    });
+  });
+
+  describe('parseSrcset', () => {
+    it('should split candidates whose URLs contain commas', () => {
+      expect(parseSrcset('/img/w_400,h_300/a.jpg 400w,/b.jpg 2x, /c.jpg')).toEqual([
+        { url: '/img/w_400,h_300/a.jpg', descriptor: '400w' },
+        { url: '/b.jpg', descriptor: '2x' },
+        { url: '/c.jpg', descriptor: '' },
+      ]);
+    });
   });
 
   describe('parseAssetsFromCss', () => {
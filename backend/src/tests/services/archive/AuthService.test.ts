@@ -0,0 +1,54 @@
+import { CookieJar, StorageState, validateCrawlAuth } from '../../../services/archive/AuthService.ts';
+
+describe('AuthService', () => {
+  describe('validateCrawlAuth', () => {
+    it('should accept a scripted login name', () => {
+      expect(validateCrawlAuth({ login: 'intranet' })).toEqual({ auth: { login: 'intranet' }, errors: [] });
+    });
+
+    it('should fill in storage state cookie defaults', () => {
+      const { auth } = validateCrawlAuth({ storageState: { cookies: [{ name: 'sid', value: 'abc', domain: 'example.com' }] } });
+
+      expect(auth).toEqual({
+        storageState: {
+          cookies: [{ name: 'sid', value: 'abc', domain: 'example.com', path: '/', expires: -1, httpOnly: false, secure: false, sameSite: 'Lax' }],
+          origins: [],
+        },
+      });
+    });
+
+    it('should reject ambiguous or malformed auth', () => {
+      expect(validateCrawlAuth({ login: 'a', storageState: { cookies: [] } }).errors).toHaveLength(1);
+      expect(validateCrawlAuth({ storageState: { cookies: [{ name: 'sid' }] } }).errors).toHaveLength(1);
+      expect(validateCrawlAuth('token').errors).toHaveLength(1);
+    });
+  });
+
+  describe('CookieJar', () => {
+    const cookie = (overrides: Partial<StorageState['cookies'][number]>): StorageState['cookies'][number] => ({
+      name: 'sid', value: '1', domain: 'example.com', path: '/', expires: -1, httpOnly: true, secure: false, sameSite: 'Lax', ...overrides,
+    });
+
+    it('should match cookies by domain, path and secure flag', () => {
+      const jar = new CookieJar([
+        cookie({ name: 'host', domain: 'example.com' }),
+        cookie({ name: 'sub', domain: '.example.com' }),
+        cookie({ name: 'admin', path: '/admin' }),
+        cookie({ name: 'secure', secure: true }),
+      ]);
+
+      expect(jar.getCookieHeader('http://example.com/')).toBe('host=1; sub=1');
+      expect(jar.getCookieHeader('https://example.com/admin/users')).toBe('host=1; sub=1; admin=1; secure=1');
+      expect(jar.getCookieHeader('https://cdn.example.com/app.css')).toBe('sub=1');
+      expect(jar.getCookieHeader('https://example.com/administrator')).toBe('host=1; sub=1; secure=1');
+    });
+
+    it('should skip expired cookies and leave headers alone when nothing matches', () => {
+      const jar = new CookieJar([cookie({ expires: 1 })]);
+      const headers = { 'User-Agent': 'test' };
+
+      expect(jar.getCookieHeader('https://example.com/')).toBeUndefined();
+      expect(jar.applyTo('https://example.com/', headers)).toBe(headers);
+    });
+  });
+});
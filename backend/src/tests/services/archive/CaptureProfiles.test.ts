@@ -0,0 +1,48 @@
+import { CAPTURE_PROFILES, toContextOptions, validateCaptureProfile } from '../../../services/archive/CaptureProfiles.ts';
+
+describe('CaptureProfiles', () => {
+  it('should default to desktop and accept preset names', () => {
+    expect(validateCaptureProfile(undefined).profile).toEqual(CAPTURE_PROFILES.desktop);
+    expect(validateCaptureProfile('mobile').profile).toMatchObject({ name: 'mobile', isMobile: true, hasTouch: true });
+    expect(validateCaptureProfile('phone').errors).toHaveLength(1);
+  });
+
+  it('should build a custom profile on top of a preset', () => {
+    const { profile, errors } = validateCaptureProfile({
+      base: 'tablet',
+      viewport: { width: 1024 },
+      locale: 'de-DE',
+      timezoneId: 'Europe/Berlin',
+      geolocation: { latitude: 52.52, longitude: 13.405 },
+    });
+    expect(errors).toEqual([]);
+    expect(profile).toMatchObject({
+      name: 'custom',
+      viewport: { width: 1024, height: CAPTURE_PROFILES.tablet.viewport.height },
+      deviceScaleFactor: CAPTURE_PROFILES.tablet.deviceScaleFactor,
+      userAgent: CAPTURE_PROFILES.tablet.userAgent,
+      locale: 'de-DE',
+    });
+    expect(CAPTURE_PROFILES.tablet.viewport.width).not.toBe(1024);
+    expect(toContextOptions(profile!).permissions).toEqual(['geolocation']);
+  });
+
+  it('should reject out-of-range and unknown fields', () => {
+    const { profile, errors } = validateCaptureProfile({
+      viewport: { width: 50, depth: 3 },
+      deviceScaleFactor: 10,
+      timezoneId: 'Mars/Olympus_Mons',
+      geolocation: { latitude: 91, longitude: 0 },
+      colorScheme: 'dark',
+    });
+    expect(profile).toBeUndefined();
+    expect(errors).toEqual(expect.arrayContaining([
+      'Unknown option "profile.colorScheme"',
+      'Unknown option "profile.viewport.depth"',
+      'profile.viewport.width must be an integer between 200 and 7680',
+      'profile.deviceScaleFactor must be a number between 0.5 and 4',
+      'profile.timezoneId must be an IANA time zone such as "Europe/Berlin"',
+      'profile.geolocation.latitude must be a number between -90 and 90',
+    ]));
+  });
+});
@@ -0,0 +1,91 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CheckpointStore } from '../../../services/archive/CheckpointStore.ts';
+import { CrawledPage, CrawlFrontier } from '../../../services/archive/CrawlerService.ts';
+
+describe('CheckpointStore', () => {
+  const originalCwd = process.cwd();
+  let tempDir: string;
+  let store: CheckpointStore;
+
+  const crawled = (sequence: number, url: string): CrawledPage => ({
+    sequence,
+    page: { url, html: '<html></html>', title: url, links: [], path: `${sequence}/index.html` },
+  });
+  const frontier = (queue: string[], visited: string[]): CrawlFrontier => ({
+    queue: queue.map(url => ({ url, depth: 1, via: 'link' })),
+    visited,
+    variants: {},
+    sequence: visited.length,
+    bytesFetched: 1000 * visited.length,
+    capturedUrls: [],
+  });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'checkpoints-'));
+    process.chdir(tempDir);
+    store = new CheckpointStore();
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return null for archives without a checkpoint', async () => {
+    expect(await store.load('missing')).toBeNull();
+  });
+
+  it('should restore the frontier and crawled pages', async () => {
+    await store.setStage('a1', 'crawling');
+    await store.savePage('a1', crawled(0, 'https://example.com/'), frontier(['https://example.com/b'], ['https://example.com/']));
+    await store.savePage('a1', crawled(1, 'https://example.com/b'), frontier([], ['https://example.com/', 'https://example.com/b']));
+
+    const loaded = await store.load('a1');
+    expect(loaded?.checkpoint.stage).toBe('crawling');
+    expect(loaded?.checkpoint.frontier?.visited).toEqual(['https://example.com/', 'https://example.com/b']);
+    expect(loaded?.checkpoint.frontier?.bytesFetched).toBe(2000);
+    expect(loaded?.pages.map(page => page.page.url)).toEqual(['https://example.com/', 'https://example.com/b']);
+  });
+
+  it('should keep the time the job has used across stages', async () => {
+    await store.savePage('a1', crawled(0, 'https://example.com/'), { ...frontier([], ['https://example.com/']), elapsedMs: 4000 });
+    expect((await store.load('a1'))?.checkpoint.elapsedMs).toBe(4000);
+
+    await store.finishCrawl('a1', [crawled(0, 'https://example.com/')], 5000);
+    await store.setStage('a1', 'downloading', undefined, 6500);
+    expect((await store.load('a1'))?.checkpoint.elapsedMs).toBe(6500);
+  });
+
+  it('should keep the latest copy of a page saved twice and skip a truncated last line', async () => {
+    const home = crawled(0, 'https://example.com/');
+    await store.savePage('a1', home, frontier([], ['https://example.com/']));
+    home.page.redirects = [{ url: 'http://example.com/', status: 301, location: 'https://example.com/' }];
+    await store.savePage('a1', home, frontier([], ['https://example.com/']));
+    await fs.appendFile(path.join(tempDir, 'data', 'checkpoints', 'a1', 'pages.jsonl'), '{"sequence":2,"pa');
+
+    const loaded = await store.load('a1');
+    expect(loaded?.pages).toHaveLength(1);
+    expect(loaded?.pages[0].page.redirects).toEqual(home.page.redirects);
+  });
+
+  it('should move past crawling with the final page list and record downloaded assets', async () => {
+    await store.savePage('a1', crawled(0, 'https://example.com/'), frontier(['https://example.com/b'], ['https://example.com/']));
+    await store.finishCrawl('a1', [crawled(0, 'https://example.com/'), crawled(1, 'https://example.com/c')]);
+    await store.setStage('a1', 'downloading');
+    await store.saveAsset('a1', 'https://example.com/style.css', 'assets/style.css');
+
+    const loaded = await store.load('a1');
+    expect(loaded?.checkpoint.stage).toBe('downloading');
+    expect(loaded?.checkpoint.frontier).toBeUndefined();
+    expect(loaded?.pages.map(page => page.page.url)).toEqual(['https://example.com/', 'https://example.com/c']);
+    expect(loaded?.downloadedAssets.get('https://example.com/style.css')).toBe('assets/style.css');
+  });
+
+  it('should remove the checkpoint', async () => {
+    await store.setStage('a1', 'rewriting');
+    await store.remove('a1');
+    expect(await store.load('a1')).toBeNull();
+  });
+});
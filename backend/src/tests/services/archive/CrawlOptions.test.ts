@@ -0,0 +1,144 @@
+import {
+  DEFAULT_CRAWL_OPTIONS,
+  compileCrawlScope,
+  getRegistrableDomain,
+  isUrlInScope,
+  validateCrawlOptions,
+} from '../../../services/archive/CrawlOptions.ts';
+
+describe('CrawlOptions', () => {
+  describe('validateCrawlOptions', () => {
+    it('should return the defaults when no options are given', () => {
+      const { options, errors } = validateCrawlOptions(undefined);
+
+      expect(errors).toHaveLength(0);
+      expect(options).toEqual(DEFAULT_CRAWL_OPTIONS);
+    });
+
+    it('should merge valid options over the defaults', () => {
+      const previous = { ...DEFAULT_CRAWL_OPTIONS, maxPages: 200, exclude: ['/cart'] };
+      const { options } = validateCrawlOptions({ maxDepth: 2, scope: 'domain' }, previous);
+
+      expect(options).toMatchObject({ maxDepth: 2, maxPages: 200, scope: 'domain', exclude: ['/cart'] });
+    });
+
+    it('should allow clearing an inherited budget with null', () => {
+      const previous = { ...DEFAULT_CRAWL_OPTIONS, byteBudget: 1000 };
+      const { options } = validateCrawlOptions({ byteBudget: null }, previous);
+
+      expect(options!.byteBudget).toBeUndefined();
+    });
+
+    it('should validate page behavior overrides', () => {
+      const { options } = validateCrawlOptions({ behaviors: { autoScroll: false, timeoutMs: 5000 } });
+      expect(options!.behaviors).toEqual({ autoScroll: false, timeoutMs: 5000 });
+
+      const { errors } = validateCrawlOptions({ behaviors: { hoverMenus: 'yes', timeoutMs: 10, clickAll: true } });
+      expect(errors).toHaveLength(3);
+    });
+
+    it('should validate rate limit and retry overrides', () => {
+      const { options } = validateCrawlOptions({ rateLimit: { maxInFlight: 2 }, retries: { maxRetries: 5, baseDelayMs: 200 } });
+      expect(options!.rateLimit).toEqual({ maxInFlight: 2 });
+      expect(options!.retries).toEqual({ maxRetries: 5, baseDelayMs: 200 });
+      const { errors } = validateCrawlOptions({ rateLimit: { maxInFlight: 0 }, retries: { maxRetries: 11, jitter: true } });
+      expect(errors).toEqual([
+        'rateLimit.maxInFlight must be an integer between 1 and 64',
+        'retries.maxRetries must be an integer between 0 and 10',
+        'Unknown option "retries.jitter"',
+      ]);
+    });
+
+    it('should validate linked document limits', () => {
+      const { options } = validateCrawlOptions({ documents: { maxBytes: 1024, mimeTypes: ['application/pdf', 'video/*'] } });
+      expect(options!.documents).toEqual({ maxBytes: 1024, mimeTypes: ['application/pdf', 'video/*'] });
+
+      const { errors } = validateCrawlOptions({ documents: { maxBytes: 0, mimeTypes: ['pdf'], follow: true } });
+      expect(errors).toHaveLength(3);
+    });
+
+    it('should report every invalid field', () => {
+      const { options, errors } = validateCrawlOptions({
+        maxPages: 0,
+        scope: 'everything',
+        include: ['('],
+        ignoreRobots: 'yes',
+        colour: 'blue',
+      });
+
+      expect(options).toBeUndefined();
+      expect(errors).toHaveLength(5);
+    });
+
+    it('should refuse patterns that could stall the crawl', () => {
+      const { errors } = validateCrawlOptions({ include: ['(a+)+$', 'x'.repeat(501)], exclude: ['(.*)*\\.pdf'] });
+
+      expect(errors).toEqual([
+        expect.stringMatching(/^include pattern could backtrack catastrophically/),
+        expect.stringMatching(/^include pattern is longer than 500 characters/),
+        expect.stringMatching(/^exclude pattern could backtrack catastrophically/),
+      ]);
+      expect(validateCrawlOptions({ include: ['^https://example\\.com/docs/'], exclude: ['\\.pdf$', '/cart'] }).errors).toEqual([]);
+    });
+  });
+
+  describe('getRegistrableDomain', () => {
+    it('should strip subdomains', () => {
+      expect(getRegistrableDomain('blog.shop.example.com')).toBe('example.com');
+    });
+
+    it('should keep three labels for multi-label public suffixes', () => {
+      expect(getRegistrableDomain('www.example.co.uk')).toBe('example.co.uk');
+      expect(getRegistrableDomain('www.unimelb.edu.au')).toBe('unimelb.edu.au');
+      expect(getRegistrableDomain('www.health.gov.au')).toBe('health.gov.au');
+      expect(getRegistrableDomain('www.u-tokyo.ac.jp')).toBe('u-tokyo.ac.jp');
+    });
+
+    it('should treat hosting platforms as public suffixes', () => {
+      expect(getRegistrableDomain('alice.github.io')).toBe('alice.github.io');
+      expect(getRegistrableDomain('news.blogspot.com')).toBe('news.blogspot.com');
+      expect(getRegistrableDomain('my-app.vercel.app')).toBe('my-app.vercel.app');
+      expect(getRegistrableDomain('api.my-app.herokuapp.com')).toBe('my-app.herokuapp.com');
+    });
+
+    it('should fall back to the host for IP addresses and unknown suffixes', () => {
+      expect(getRegistrableDomain('127.0.0.1')).toBe('127.0.0.1');
+      expect(getRegistrableDomain('localhost')).toBe('localhost');
+      expect(getRegistrableDomain('wiki.corp.internal')).toBe('wiki.corp.internal');
+    });
+  });
+
+  describe('isUrlInScope', () => {
+    const scope = compileCrawlScope({ scope: 'host', include: [], exclude: [] });
+
+    it('should only allow the start host by default', () => {
+      expect(isUrlInScope('https://www.example.com/', 'https://www.example.com/about', scope)).toBe(true);
+      expect(isUrlInScope('https://www.example.com/', 'https://blog.example.com/', scope)).toBe(false);
+    });
+
+    it('should allow sibling hosts with domain scope', () => {
+      expect(isUrlInScope('https://www.example.com/', 'https://blog.example.com/', { ...scope, scope: 'domain' })).toBe(true);
+    });
+
+    it('should not let domain scope reach other sites under a shared suffix', () => {
+      const domain = { ...scope, scope: 'domain' as const };
+      expect(isUrlInScope('https://www.unimelb.edu.au/', 'https://www.monash.edu.au/', domain)).toBe(false);
+      expect(isUrlInScope('https://alice.github.io/', 'https://bob.github.io/', domain)).toBe(false);
+      expect(isUrlInScope('https://my-app.vercel.app/', 'https://other-app.vercel.app/', domain)).toBe(false);
+      expect(isUrlInScope('https://www.unimelb.edu.au/', 'https://library.unimelb.edu.au/', domain)).toBe(true);
+    });
+
+    it('should apply include and exclude patterns', () => {
+      const filtered = compileCrawlScope({ scope: 'host', include: ['/docs/'], exclude: ['\\.pdf$'] });
+
+      expect(isUrlInScope('https://example.com/', 'https://example.com/docs/intro', filtered)).toBe(true);
+      expect(isUrlInScope('https://example.com/', 'https://example.com/blog/post', filtered)).toBe(false);
+      expect(isUrlInScope('https://example.com/', 'https://example.com/docs/manual.pdf', filtered)).toBe(false);
+    });
+
+    it('should compile the patterns once, rejecting invalid ones', () => {
+      expect(compileCrawlScope({ scope: 'host', include: ['/docs/'], exclude: [] }).include[0]).toBeInstanceOf(RegExp);
+      expect(() => compileCrawlScope({ scope: 'host', include: [], exclude: ['('] })).toThrow(SyntaxError);
+    });
+  });
+});
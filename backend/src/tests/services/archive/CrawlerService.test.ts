@@ -1,3 +1,9 @@
+import fs from 'fs/promises';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { CapturedResponse } from '../../../services/archive/CaptureStore.ts';
 import { CrawlerService } from '../../../services/archive/CrawlerService.ts';
 
 describe('CrawlerService - Real Tests', () => {
@@ -164,4 +170,231 @@ describe('CrawlerService - Real Tests', () => {
       console.log(`\n✅ Invalid URL test completed!`);
     }, 30000);
   });
+
+  describe('generatePagePath', () => {
+    it('should keep the URL structure', () => {
+      expect(crawlerService.generatePagePath('https://example.com/')).toBe('index.html');
+      expect(crawlerService.generatePagePath('https://example.com/about/')).toBe('about/index.html');
+      expect(crawlerService.generatePagePath('https://example.com/blog/post')).toBe('blog/post.html');
+    });
+
+    it('should store pages that differ only by query string in different files', () => {
+      const first = crawlerService.generatePagePath('https://example.com/products?page=1');
+      const second = crawlerService.generatePagePath('https://example.com/products?page=2');
+
+      expect(first).toMatch(/^products-[0-9a-z]+\.html$/);
+      expect(second).toMatch(/^products-[0-9a-z]+\.html$/);
+      expect(first).not.toBe(second);
+      expect(crawlerService.generatePagePath('https://example.com/?page=2')).toMatch(/^index-[0-9a-z]+\.html$/);
+    });
+
+    it('should not depend on the host, so the viewer can resolve a request path', () => {
+      expect(crawlerService.generatePagePath('https://www.example.com/products?page=2'))
+        .toBe(crawlerService.generatePagePath('http://archive.invalid/products?page=2'));
+    });
+  });
+
+  describe('concurrent crawling', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: string[];
+    let active: number;
+    let peakActive: number;
+    const documents: Record<string, string> = {
+      '/': '<a href="/slow">Slow</a><a href="/fast">Fast</a><a href="/other">Other</a>',
+      '/slow': '<a href="/">Home</a><a href="/fast">Fast</a><a href="/deep">Deep</a>',
+      '/fast': '<a href="/other">Other</a><a href="/slow?">Slow again</a>',
+      '/other': '<a href="/deep">Deep</a>',
+      '/deep': '<p>Deep</p>',
+    };
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+        if (!(pathname in documents)) {
+          res.writeHead(404).end();
+          return;
+        }
+        requests.push(pathname);
+        active++;
+        peakActive = Math.max(peakActive, active);
+        // The first link finishes last, so completion order differs from discovery order
+        setTimeout(() => {
+          active--;
+          res.writeHead(200, { 'content-type': 'text/html' });
+          res.end(`<title>${pathname}</title>${documents[pathname]}`);
+        }, pathname === '/slow' ? 500 : 50);
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      requests = [];
+      active = 0;
+      peakActive = 0;
+    });
+
+    it('should crawl each page once and return them in discovery order', async () => {
+      crawlerService.setConcurrency(3);
+      const pages = await crawlerService.crawlWebsite(`${baseUrl}/`, { maxDepth: 3, maxPages: 10, ignoreRobots: true, useSitemaps: false });
+
+      expect(peakActive).toBeGreaterThan(1);
+      expect(requests.sort()).toEqual(['/', '/deep', '/fast', '/other', '/slow']);
+      expect(pages.map(page => new URL(page.url).pathname)).toEqual(['/', '/slow', '/fast', '/other', '/deep']);
+    }, 60000);
+  });
+
+  describe('response capture', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    const resources: Record<string, { status: number; type: string; body: string }> = {
+      '/': { status: 200, type: 'text/html', body: '<h1>App</h1><script type="module" src="/app.js"></script>' },
+      '/app.js': {
+        status: 200,
+        type: 'text/javascript',
+        body: `
+          const xhr = new XMLHttpRequest();
+          xhr.open('GET', '/api/data.json');
+          xhr.send();
+          fetch('/api/missing.json').catch(() => {});
+          setTimeout(() => import('/lazy.js'), 100);
+        `,
+      },
+      '/lazy.js': { status: 200, type: 'text/javascript', body: 'document.body.dataset.lazy = "loaded";' },
+      '/api/data.json': { status: 200, type: 'application/json', body: '{"items":[1,2,3]}' },
+      '/api/missing.json': { status: 404, type: 'application/json', body: '{"error":"Not found"}' },
+    };
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        const resource = resources[new URL(req.url || '/', 'http://localhost').pathname];
+        if (!resource) {
+          res.writeHead(404).end();
+          return;
+        }
+        res.writeHead(resource.status, { 'content-type': resource.type, 'x-fixture': 'yes' });
+        res.end(resource.body);
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should hand XHR responses and lazily imported scripts to the sink, and skip error responses', async () => {
+      const captured: Array<{ response: CapturedResponse; pageUrl: string }> = [];
+      await crawlerService.crawlPage(`${baseUrl}/`, undefined, {
+        onResponse: async (response, pageUrl) => { captured.push({ response, pageUrl }); },
+      });
+      const responseFor = (pathname: string) => captured.find(({ response }) => new URL(response.url).pathname === pathname);
+
+      const data = responseFor('/api/data.json');
+      expect(data?.pageUrl).toBe(`${baseUrl}/`);
+      expect(data?.response).toMatchObject({ method: 'GET', status: 200 });
+      expect(data?.response.responseHeaders).toMatchObject({ 'content-type': 'application/json', 'x-fixture': 'yes' });
+      expect(JSON.parse(data!.response.body.toString())).toEqual({ items: [1, 2, 3] });
+
+      const lazy = responseFor('/lazy.js');
+      expect(lazy?.response.status).toBe(200);
+      expect(lazy?.response.responseHeaders['content-type']).toBe('text/javascript');
+      expect(lazy?.response.body.toString()).toBe(resources['/lazy.js'].body);
+
+      expect(responseFor('/app.js')).toBeDefined();
+      expect(responseFor('/api/missing.json')).toBeUndefined();
+      expect(responseFor('/')).toBeUndefined();
+    }, 60000);
+  });
+
+  describe('frames', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    const documents: Record<string, string> = {
+      '/': '<h1>Page</h1><iframe src="/widget"></iframe><iframe srcdoc="<p>inline</p>"></iframe>',
+      '/widget': '<p>Widget</p><iframe src="/widget/inner?id=1"></iframe>',
+      '/widget/inner': '<p>Inner</p><iframe src="/too-deep"></iframe>',
+      '/too-deep': '<p>Too deep</p>',
+    };
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        res.writeHead(200, { 'content-type': 'text/html' });
+        res.end(documents[new URL(req.url || '/', 'http://localhost').pathname] ?? '');
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should save nested iframe documents down to the depth limit', async () => {
+      const pageData = await crawlerService.crawlPage(`${baseUrl}/`, undefined, { maxFrameDepth: 2 });
+
+      expect(pageData.frames?.map(frame => [frame.url, frame.depth])).toEqual([
+        [`${baseUrl}/widget`, 1],
+        [`${baseUrl}/widget/inner?id=1`, 2],
+      ]);
+      expect(pageData.frames?.[1].html).toContain('Inner');
+    }, 60000);
+
+    it('should keep frames from other hosts apart from the pages', () => {
+      expect(crawlerService.generateFramePath('https://maps.example.net:8443/embed?q=1'))
+        .toMatch(/^_frames\/maps\.example\.net_8443\/embed-[0-9a-z]+\.html$/);
+    });
+  });
+
+  describe('renditions', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let renditionsDir: string;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        res.writeHead(200, { 'content-type': 'text/html' });
+        res.end('<h1>Post</h1><p>Rendered for the record</p>');
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(async () => {
+      renditionsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'renditions-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(renditionsDir, { recursive: true, force: true });
+    });
+
+    it('should save a screenshot and PDF next to where the page is stored', async () => {
+      const pageData = await crawlerService.crawlPage(`${baseUrl}/blog/post`, undefined, { renditionsDir, pdf: true });
+
+      expect(pageData.path).toBe('blog/post.html');
+      expect(pageData.screenshot).toBe('blog/post.screenshot.png');
+      expect(pageData.pdf).toBe('blog/post.pdf');
+      const screenshot = await fs.readFile(path.join(renditionsDir, pageData.screenshot!));
+      expect(screenshot.subarray(1, 4).toString()).toBe('PNG');
+      const pdf = await fs.readFile(path.join(renditionsDir, pageData.pdf!));
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    }, 60000);
+
+    it('should take only the screenshot unless a PDF is asked for', async () => {
+      const pageData = await crawlerService.crawlPage(`${baseUrl}/`, undefined, { renditionsDir });
+
+      expect(pageData.screenshot).toBe('index.screenshot.png');
+      expect(pageData.pdf).toBeUndefined();
+      await expect(fs.stat(path.join(renditionsDir, 'index.pdf'))).rejects.toThrow();
+    }, 60000);
+  });
 });
\ No newline at end of file
@@ -0,0 +1,33 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FailureLog } from '../../../services/archive/FailureLog.ts';
+
+describe('FailureLog', () => {
+  const originalCwd = process.cwd();
+  let tempDir: string;
+  let log: FailureLog;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'failures-'));
+    process.chdir(tempDir);
+    log = new FailureLog();
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should list a URL that failed again on resume once, with its latest failure', async () => {
+    await log.record('a1', 'asset', 'https://cdn.example.com/font.woff2', { message: 'fetch failed', errorClass: 'ECONNRESET', transient: true }, 3, 'https://example.com/');
+    await log.record('a1', 'page', 'https://example.com/broken', { message: 'HTTP 500', status: 500, transient: true }, 3);
+    await log.record('a1', 'asset', 'https://cdn.example.com/font.woff2', { message: 'HTTP 404', status: 404, transient: false }, 1, 'https://example.com/');
+
+    const failures = await log.list('a1');
+    expect(failures.map(failure => [failure.url, failure.status])).toEqual([
+      ['https://cdn.example.com/font.woff2', 404],
+      ['https://example.com/broken', 500],
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { HostScheduler } from '../../../services/archive/HostScheduler.ts';
+
+describe('HostScheduler', () => {
+  const ok = { status: 200 };
+
+  it('should never run more than maxInFlight requests per host', async () => {
+    const scheduler = new HostScheduler({ minDelayMs: 0, maxInFlight: 2 });
+    let running = 0;
+    let peak = 0;
+    const task = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      running--;
+      return ok;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, () => scheduler.request('https://example.com/a', task, result => result)));
+    expect(peak).toBe(2);
+  });
+
+  it('should space out request starts by minDelayMs but not across hosts', async () => {
+    const scheduler = new HostScheduler({ minDelayMs: 100, maxInFlight: 10 });
+    const starts: Record<string, number[]> = { a: [], b: [] };
+    const task = (host: 'a' | 'b') => async () => {
+      starts[host].push(Date.now());
+      return ok;
+    };
+
+    await Promise.all([
+      scheduler.request('https://a.example/1', task('a'), result => result),
+      scheduler.request('https://a.example/2', task('a'), result => result),
+      scheduler.request('https://b.example/1', task('b'), result => result),
+    ]);
+
+    expect(starts.a[1] - starts.a[0]).toBeGreaterThanOrEqual(95);
+    expect(starts.b[0] - starts.a[0]).toBeLessThan(50);
+  });
+
+  it('should retry 429 responses after Retry-After and return the final result', async () => {
+    const scheduler = new HostScheduler({ minDelayMs: 0, maxBackoffMs: 200 });
+    const responses = [{ status: 429, retryAfter: '0.1' }, { status: 503 }, ok];
+    const startTime = Date.now();
+    let calls = 0;
+
+    const result = await scheduler.request('https://example.com/', async () => responses[calls++], r => r);
+
+    expect(result).toBe(ok);
+    expect(calls).toBe(3);
+    // 100ms from Retry-After, then the 2s back-off step capped at 200ms
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(290);
+  });
+
+  it('should give up after maxRetries', async () => {
+    const scheduler = new HostScheduler({ minDelayMs: 0, maxRetries: 2, maxBackoffMs: 10 });
+    let calls = 0;
+
+    const result = await scheduler.request('https://example.com/', async () => { calls++; return { status: 503 }; }, r => r);
+
+    expect(result.status).toBe(503);
+    expect(calls).toBe(3);
+  });
+
+  it('should compute back-off from Retry-After or exponentially, capped at maxBackoffMs', () => {
+    const scheduler = new HostScheduler({ maxBackoffMs: 5000 });
+
+    expect(scheduler.getBackoffMs(0)).toBe(1000);
+    expect(scheduler.getBackoffMs(2)).toBe(4000);
+    expect(scheduler.getBackoffMs(5)).toBe(5000);
+    expect(scheduler.getBackoffMs(0, '3')).toBe(3000);
+    expect(scheduler.getBackoffMs(0, '600')).toBe(5000);
+    expect(scheduler.getBackoffMs(0, new Date(Date.now() + 2000).toUTCString())).toBeGreaterThan(500);
+  });
+
+  it('should hold a slot acquired for a browser request until it is released', async () => {
+    const scheduler = new HostScheduler({ minDelayMs: 0, maxInFlight: 1 });
+    const release = await scheduler.acquireSlot('https://example.com/style.css');
+    let started = false;
+    const next = scheduler.request('https://example.com/app.js', async () => { started = true; return ok; }, r => r);
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(started).toBe(false);
+    release();
+    release(); // A second release must not free a slot someone else holds
+    await next;
+    expect(started).toBe(true);
+  });
+
+  it('should pause a host for a 429 reported from outside request()', async () => {
+    const scheduler = new HostScheduler({ minDelayMs: 0 });
+    scheduler.reportOutcome('https://example.com/image.png', { status: 429, retryAfter: '0.1' });
+    const startTime = Date.now();
+
+    await scheduler.request('https://example.com/', async () => ok, r => r);
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(90);
+  });
+});
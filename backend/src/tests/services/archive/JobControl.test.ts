@@ -0,0 +1,36 @@
+import { JobControl } from '../../../services/archive/JobControl.ts';
+
+describe('JobControl', () => {
+  it('should not stop a job nobody asked to stop', () => {
+    const control = new JobControl();
+    expect(control.shouldStop()).toBe(false);
+    expect(control.shouldAbort()).toBe(false);
+    expect(control.stopRequest).toBeNull();
+  });
+
+  it('should stop and abort work in progress when paused', () => {
+    const control = new JobControl();
+    control.pause();
+    expect(control.stopRequest).toEqual({ action: 'pause' });
+    expect(control.shouldStop()).toBe(true);
+    expect(control.shouldAbort()).toBe(true);
+  });
+
+  it('should stop fetching but let the rewrite finish when cancelled with keepPartial', () => {
+    const control = new JobControl();
+    control.cancel(true);
+    expect(control.shouldStop()).toBe(true);
+    expect(control.shouldAbort()).toBe(false);
+  });
+
+  it('should let a cancel override a pause but not the other way round', () => {
+    const control = new JobControl();
+    control.pause();
+    control.cancel(false);
+    expect(control.stopRequest).toEqual({ action: 'cancel', keepPartial: false });
+
+    control.pause();
+    control.cancel(true);
+    expect(control.stopRequest).toEqual({ action: 'cancel', keepPartial: false });
+  });
+});
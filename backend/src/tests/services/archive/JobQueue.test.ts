@@ -0,0 +1,87 @@
+import { JobQueue, validateJobPriority } from '../../../services/archive/JobQueue.ts';
+
+describe('JobQueue', () => {
+  // A job that runs until release() is called for it
+  const createJobs = () => {
+    const started: string[] = [];
+    const releases = new Map<string, () => void>();
+    const job = (id: string, url: string, priority: number = 0) => ({
+      id,
+      url,
+      priority,
+      run: () => new Promise<void>(resolve => {
+        started.push(id);
+        releases.set(id, resolve);
+      }),
+    });
+    const release = async (id: string) => {
+      releases.get(id)!();
+      await new Promise(resolve => setImmediate(resolve));
+    };
+    return { started, job, release };
+  };
+
+  it('should not run more than maxConcurrent jobs', async () => {
+    const queue = new JobQueue({ maxConcurrent: 2, maxPerDomain: 5 });
+    const { started, job, release } = createJobs();
+
+    queue.enqueue(job('a', 'https://a.example/'));
+    queue.enqueue(job('b', 'https://b.example/'));
+    queue.enqueue(job('c', 'https://c.example/'));
+    expect(started).toEqual(['a', 'b']);
+    expect(queue.getSnapshot().queued).toEqual([expect.objectContaining({ id: 'c', position: 1 })]);
+
+    await release('a');
+    expect(started).toEqual(['a', 'b', 'c']);
+    expect(queue.getSnapshot().active.map(active => active.id)).toEqual(['b', 'c']);
+  });
+
+  it('should skip jobs whose domain is at its limit without blocking the rest', async () => {
+    const queue = new JobQueue({ maxConcurrent: 3, maxPerDomain: 1 });
+    const { started, job, release } = createJobs();
+
+    queue.enqueue(job('a1', 'https://www.a-example.com/'));
+    queue.enqueue(job('a2', 'https://blog.a-example.com/'));
+    queue.enqueue(job('b1', 'https://b-example.com/'));
+    expect(started).toEqual(['a1', 'b1']);
+
+    await release('a1');
+    expect(started).toEqual(['a1', 'b1', 'a2']);
+  });
+
+  it('should start higher priorities first and keep submission order within a priority', async () => {
+    const queue = new JobQueue({ maxConcurrent: 1, maxPerDomain: 1 });
+    const { started, job, release } = createJobs();
+
+    queue.enqueue(job('running', 'https://a.example/'));
+    queue.enqueue(job('low', 'https://b.example/', -1));
+    queue.enqueue(job('first', 'https://c.example/'));
+    queue.enqueue(job('second', 'https://d.example/'));
+    queue.enqueue(job('urgent', 'https://e.example/', 10));
+    expect(queue.getSnapshot().queued.map(queued => queued.id)).toEqual(['urgent', 'first', 'second', 'low']);
+
+    for (const id of ['running', 'urgent', 'first', 'second']) {
+      await release(id);
+    }
+    expect(started).toEqual(['running', 'urgent', 'first', 'second', 'low']);
+  });
+
+  it('should remove jobs that have not started', () => {
+    const queue = new JobQueue({ maxConcurrent: 1, maxPerDomain: 1 });
+    const { started, job } = createJobs();
+
+    queue.enqueue(job('a', 'https://a.example/'));
+    queue.enqueue(job('b', 'https://b.example/'));
+    expect(queue.remove('a')).toBe(false);
+    expect(queue.remove('b')).toBe(true);
+    expect(queue.isQueued('b')).toBe(false);
+    expect(started).toEqual(['a']);
+  });
+
+  it('should validate priorities', () => {
+    expect(validateJobPriority(undefined)).toEqual({ priority: 0, errors: [] });
+    expect(validateJobPriority(5).priority).toBe(5);
+    expect(validateJobPriority(1.5).priority).toBeUndefined();
+    expect(validateJobPriority('high').errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,19 @@
+import { DEFAULT_DOCUMENT_OPTIONS, isAllowedDocumentType, isHtmlContentType } from '../../../services/archive/LinkedDocuments.ts';
+
+describe('LinkedDocuments', () => {
+  it('should treat HTML, XHTML and untyped responses as pages', () => {
+    expect(isHtmlContentType('text/html; charset=utf-8')).toBe(true);
+    expect(isHtmlContentType('application/xhtml+xml')).toBe(true);
+    expect(isHtmlContentType('')).toBe(true);
+    expect(isHtmlContentType('application/pdf')).toBe(false);
+  });
+
+  it('should match the allowlist exactly or by prefix', () => {
+    const { mimeTypes } = DEFAULT_DOCUMENT_OPTIONS;
+    expect(isAllowedDocumentType('application/pdf', mimeTypes)).toBe(true);
+    expect(isAllowedDocumentType('Video/MP4; codecs="avc1"', mimeTypes)).toBe(true);
+    expect(isAllowedDocumentType('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', mimeTypes)).toBe(true);
+    expect(isAllowedDocumentType('application/octet-stream', mimeTypes)).toBe(false);
+    expect(isAllowedDocumentType('', mimeTypes)).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+import { Browser, chromium, Page } from 'playwright';
+import { PageBehaviors } from '../../../services/archive/PageBehaviors.ts';
+
+describe('PageBehaviors', () => {
+  let browser: Browser;
+  let page: Page;
+
+  beforeAll(async () => {
+    browser = await chromium.launch();
+  });
+
+  afterAll(async () => {
+    await browser.close();
+  });
+
+  beforeEach(async () => {
+    page = await browser.newPage({ viewport: { width: 800, height: 600 } });
+  });
+
+  afterEach(async () => {
+    await page.close();
+  });
+
+  it('should keep scrolling until an infinite feed stops growing', async () => {
+    // Appends another screen of content each time the bottom is reached, three times
+    await page.setContent(`
+      <div id="feed"><div style="height: 1200px">item</div></div>
+      <script>
+        let batches = 0;
+        window.addEventListener('scroll', () => {
+          if (batches < 3 && window.scrollY + window.innerHeight >= document.body.scrollHeight - 10) {
+            batches++;
+            const item = document.createElement('div');
+            item.style.height = '1200px';
+            item.className = 'loaded';
+            document.getElementById('feed').appendChild(item);
+          }
+        });
+      </script>
+    `);
+
+    const logs = await new PageBehaviors({ hoverMenus: false, expandDetails: false }).run(page);
+
+    expect(logs).toHaveLength(1);
+    expect(logs[0]).toMatchObject({ name: 'autoScroll', status: 'completed' });
+    expect(await page.locator('.loaded').count()).toBe(3);
+    expect(await page.evaluate(() => window.scrollY)).toBe(0);
+  }, 30000);
+
+  it('should open closed details elements', async () => {
+    await page.setContent('<details><summary>A</summary>a</details><details open><summary>B</summary>b</details>');
+
+    const logs = await new PageBehaviors({ autoScroll: false, hoverMenus: false }).run(page);
+
+    expect(logs[0]).toMatchObject({ name: 'expandDetails', status: 'completed', detail: 'opened 1 <details> elements' });
+    expect(await page.locator('details[open]').count()).toBe(2);
+  });
+
+  it('should hover navigation items', async () => {
+    await page.setContent(`
+      <nav><ul>
+        <li onmouseenter="this.dataset.hovered = 'yes'">Products</li>
+        <li onmouseenter="this.dataset.hovered = 'yes'">About</li>
+      </ul></nav>
+    `);
+
+    const logs = await new PageBehaviors({ autoScroll: false, expandDetails: false }).run(page);
+
+    expect(logs[0]).toMatchObject({ name: 'hoverMenus', status: 'completed', detail: 'hovered 2 of 2 menu elements' });
+    expect(await page.locator('li[data-hovered="yes"]').count()).toBe(2);
+  });
+
+  it('should report a behavior that runs past its timeout', async () => {
+    // Grows forever, so the height never stabilizes
+    await page.setContent(`
+      <div style="height: 2000px"></div>
+      <script>
+        setInterval(() => {
+          const filler = document.createElement('div');
+          filler.style.height = '500px';
+          document.body.appendChild(filler);
+        }, 100);
+      </script>
+    `);
+
+    const logs = await new PageBehaviors({ hoverMenus: false, expandDetails: false, timeoutMs: 1500 }).run(page);
+
+    expect(logs[0]).toMatchObject({ name: 'autoScroll', status: 'timedOut' });
+  }, 30000);
+});
@@ -0,0 +1,71 @@
+import { RetryPolicy, HttpStatusError, RetriesExhaustedError, describeFailure } from '../../../services/archive/RetryPolicy.ts';
+
+describe('RetryPolicy', () => {
+  describe('describeFailure', () => {
+    it('should treat gateway errors as transient and client errors as final', () => {
+      expect(describeFailure(new HttpStatusError(502, 'Bad Gateway'))).toEqual({ status: 502, message: 'HTTP 502: Bad Gateway', transient: true });
+      expect(describeFailure(new HttpStatusError(404)).transient).toBe(false);
+    });
+
+    it('should classify Chromium network errors by their code', () => {
+      const reset = describeFailure(new Error('page.goto: net::ERR_CONNECTION_RESET at https://example.com/\nCall log: ...'));
+      expect(reset).toEqual({ errorClass: 'ERR_CONNECTION_RESET', message: 'page.goto: net::ERR_CONNECTION_RESET at https://example.com/', transient: true });
+      expect(describeFailure(new Error('page.goto: net::ERR_NAME_NOT_RESOLVED at https://nope.example/')).transient).toBe(false);
+    });
+
+    it('should classify timeouts and socket errors from fetch', () => {
+      const timeout = Object.assign(new Error('page.goto: Timeout 30000ms exceeded.'), { name: 'TimeoutError' });
+      expect(describeFailure(timeout)).toMatchObject({ errorClass: 'timeout', transient: true });
+
+      const fetchFailed = new TypeError('fetch failed', { cause: Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' }) });
+      expect(describeFailure(fetchFailed)).toEqual({ errorClass: 'ECONNRESET', message: 'fetch failed: read ECONNRESET', transient: true });
+    });
+  });
+
+  describe('run', () => {
+    it('should retry transient failures until the task succeeds', async () => {
+      const policy = new RetryPolicy({ maxRetries: 3, baseDelayMs: 10 });
+      let calls = 0;
+      const result = await policy.run('https://example.com/', async () => {
+        calls++;
+        if (calls < 3) throw new HttpStatusError(500);
+        return 'ok';
+      });
+      expect(result).toBe('ok');
+      expect(calls).toBe(3);
+    });
+
+    it('should give up on final failures straight away', async () => {
+      const policy = new RetryPolicy({ maxRetries: 3, baseDelayMs: 10 });
+      const error = await policy.run('https://example.com/', async () => {
+        throw new HttpStatusError(404);
+      }).catch(e => e);
+      expect(error).toBeInstanceOf(RetriesExhaustedError);
+      expect(error.attempts).toBe(1);
+      expect(error.failure.status).toBe(404);
+    });
+
+    it('should stop after maxRetries retries', async () => {
+      const policy = new RetryPolicy({ maxRetries: 2, baseDelayMs: 10 });
+      let calls = 0;
+      const error = await policy.run('https://example.com/', async () => {
+        calls++;
+        throw new HttpStatusError(504);
+      }).catch(e => e);
+      expect(calls).toBe(3);
+      expect(error.attempts).toBe(3);
+    });
+  });
+
+  it('should keep back-off between half and all of the capped exponential delay', () => {
+    const policy = new RetryPolicy({ baseDelayMs: 1000, maxDelayMs: 5000 });
+    for (let i = 0; i < 20; i++) {
+      const first = policy.getDelayMs(0);
+      expect(first).toBeGreaterThanOrEqual(500);
+      expect(first).toBeLessThanOrEqual(1000);
+      const capped = policy.getDelayMs(10);
+      expect(capped).toBeGreaterThanOrEqual(2500);
+      expect(capped).toBeLessThanOrEqual(5000);
+    }
+  });
+});
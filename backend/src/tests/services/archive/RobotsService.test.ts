@@ -0,0 +1,152 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { HostScheduler } from '../../../services/archive/HostScheduler.ts';
+import { RetryPolicy } from '../../../services/archive/RetryPolicy.ts';
+import { RobotsService, RobotsTxt, getUserAgentTokens } from '../../../services/archive/RobotsService.ts';
+
+describe('RobotsTxt', () => {
+  const content = `
+# Example robots.txt
+User-agent: *
+Disallow: /private/
+Allow: /private/public-page
+Disallow: /*.pdf$
+Crawl-delay: 2
+
+User-agent: BadBot
+Disallow: /
+
+Sitemap: https://example.com/sitemap.xml
+`;
+
+  let robots: RobotsTxt;
+
+  beforeEach(() => {
+    robots = new RobotsTxt(content);
+  });
+
+  describe('isAllowed', () => {
+    it('should allow paths with no matching rule', () => {
+      expect(robots.isAllowed('https://example.com/about')).toBe(true);
+    });
+
+    it('should disallow paths under a Disallow prefix', () => {
+      expect(robots.isAllowed('https://example.com/private/secret')).toBe(false);
+    });
+
+    it('should prefer the longest matching rule', () => {
+      expect(robots.isAllowed('https://example.com/private/public-page')).toBe(true);
+    });
+
+    it('should support wildcards and end anchors', () => {
+      expect(robots.isAllowed('https://example.com/docs/report.pdf')).toBe(false);
+      expect(robots.isAllowed('https://example.com/docs/report.pdf?download=1')).toBe(true);
+    });
+
+    it('should apply a group that names the user agent instead of the wildcard group', () => {
+      expect(robots.isAllowed('https://example.com/about', 'BadBot/1.0')).toBe(false);
+    });
+
+    it('should match groups against the product tokens of a browser user agent', () => {
+      const headless = new RobotsTxt('User-agent: HeadlessChrome\nDisallow: /\n\nUser-agent: Chrome\nDisallow: /chrome-only');
+      const userAgent = 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) HeadlessChrome/120.0.6099.28 Safari/537.36';
+
+      expect(headless.isAllowed('https://example.com/about', userAgent)).toBe(false);
+      expect(headless.isAllowed('https://example.com/chrome-only', 'Mozilla/5.0 Chrome/120.0 Safari/537.36')).toBe(false);
+      expect(headless.isAllowed('https://example.com/about', 'Mozilla/5.0 Chrome/120.0 Safari/537.36')).toBe(true);
+      expect(getUserAgentTokens(userAgent)).toEqual(['mozilla', 'applewebkit', 'headlesschrome', 'safari']);
+    });
+
+    it('should always allow robots.txt itself', () => {
+      expect(RobotsTxt.disallowAll().isAllowed('https://example.com/robots.txt')).toBe(true);
+      expect(RobotsTxt.disallowAll().isAllowed('https://example.com/')).toBe(false);
+    });
+  });
+
+  describe('extensions', () => {
+    it('should read Crawl-delay for the matching group', () => {
+      expect(robots.getCrawlDelay()).toBe(2);
+      expect(robots.getCrawlDelay('BadBot')).toBeUndefined();
+    });
+
+    it('should collect Sitemap lines', () => {
+      expect(robots.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+    });
+  });
+});
+
+describe('RobotsService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let responses: Array<number | 'reset'>; // One per request, in order; the last one repeats
+  let requests: number;
+  let service: RobotsService;
+  const scheduler = new HostScheduler({ minDelayMs: 0 });
+  const retryPolicy = new RetryPolicy({ maxRetries: 2, baseDelayMs: 10 });
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const response = responses[Math.min(requests++, responses.length - 1)];
+      if (response === 'reset') {
+        req.socket.destroy();
+        return;
+      }
+      res.writeHead(response, { 'content-type': 'text/plain' });
+      res.end(response === 200 ? 'User-agent: *\nDisallow: /private/\n' : '');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = 0;
+    service = new RobotsService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should retry a reset or server error before giving up on robots.txt', async () => {
+    responses = ['reset', 500, 200];
+
+    const robots = await service.getRobots(`${baseUrl}/`, scheduler, retryPolicy);
+
+    expect(requests).toBe(3);
+    expect(robots.isUnreachable).toBe(false);
+    expect(robots.isAllowed(`${baseUrl}/private/page`)).toBe(false);
+    expect(robots.isAllowed(`${baseUrl}/public`)).toBe(true);
+  });
+
+  it('should treat a robots.txt that keeps failing as unreachable, not as a disallow', async () => {
+    responses = [502];
+
+    const robots = await service.getRobots(`${baseUrl}/`, scheduler, retryPolicy);
+
+    expect(requests).toBe(3);
+    expect(robots.isUnreachable).toBe(true);
+    expect(robots.isAllowed(`${baseUrl}/`)).toBe(false);
+    expect(RobotsTxt.disallowAll().isUnreachable).toBe(false);
+  });
+
+  it('should ask for an unreachable robots.txt again after a minute rather than a day', async () => {
+    responses = ['reset', 'reset', 'reset', 404];
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    expect((await service.getRobots(`${baseUrl}/`, scheduler, retryPolicy)).isUnreachable).toBe(true);
+    clock.mockReturnValue(now + 30 * 1000);
+    expect((await service.getRobots(`${baseUrl}/`, scheduler, retryPolicy)).isUnreachable).toBe(true);
+    expect(requests).toBe(3);
+
+    clock.mockReturnValue(now + 61 * 1000);
+    const robots = await service.getRobots(`${baseUrl}/`, scheduler, retryPolicy);
+    expect(requests).toBe(4);
+    expect(robots.isUnreachable).toBe(false);
+    expect(robots.isAllowed(`${baseUrl}/private/page`)).toBe(true);
+  });
+});
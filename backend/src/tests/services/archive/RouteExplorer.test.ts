@@ -0,0 +1,55 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Browser, chromium } from 'playwright';
+import { RouteExplorer } from '../../../services/archive/RouteExplorer.ts';
+
+describe('RouteExplorer', () => {
+  let browser: Browser;
+  let server: http.Server;
+  let baseUrl: string;
+  const posts: string[] = [];
+
+  // A single-page app that only navigates through click handlers and pushState
+  const app = `
+    <nav>
+      <button id="pricing" onclick="history.pushState({}, '', '/pricing')">Pricing</button>
+      <div role="link" onclick="history.pushState({}, '', '/docs/intro')">Docs</div>
+      <span role="tab" onclick="history.replaceState({}, '', '?tab=team')">Team</span>
+      <button onclick="fetch('/api/delete', { method: 'POST' })">Delete</button>
+      <a href="/about">About</a>
+    </nav>
+  `;
+
+  beforeAll(async () => {
+    browser = await chromium.launch();
+    server = http.createServer((req, res) => {
+      if (req.method !== 'GET') posts.push(req.url || '');
+      res.writeHead(200, { 'content-type': 'text/html' });
+      res.end(app);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await browser.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should record the routes reached through pushState and replaceState', async () => {
+    const page = await browser.newPage();
+    const { routes, clicked } = await new RouteExplorer().explore(page, `${baseUrl}/`);
+    await page.close();
+
+    expect(routes.sort()).toEqual([`${baseUrl}/?tab=team`, `${baseUrl}/docs/intro`, `${baseUrl}/pricing`]);
+    expect(clicked).toBe(4);
+  }, 60000);
+
+  it('should not let clicks send anything but GET requests', async () => {
+    const page = await browser.newPage();
+    await new RouteExplorer().explore(page, `${baseUrl}/`);
+    await page.close();
+
+    expect(posts).toEqual([]);
+  }, 60000);
+});
@@ -0,0 +1,128 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Browser, chromium } from 'playwright';
+import { ShadowDomSerializer, ShadowDomSnapshot, getStaticPagePath } from '../../../services/archive/ShadowDomSerializer.ts';
+
+describe('ShadowDomSerializer', () => {
+  let browser: Browser;
+  let server: http.Server;
+  let baseUrl: string;
+  let serialized: ShadowDomSnapshot; // Of the component page, taken once for every test
+  let snapshot = '';
+
+  // Custom elements that render into open shadow roots, one styled through adoptedStyleSheets
+  const app = `<!DOCTYPE html>
+    <html><head><title>Components</title></head><body>
+      <product-card name="Lamp"><span slot="price">€ 25</span></product-card>
+      <closed-widget></closed-widget>
+      <script>
+        const sheet = new CSSStyleSheet();
+        sheet.replaceSync('h2 { color: rgb(255, 0, 0); }');
+        customElements.define('product-card', class extends HTMLElement {
+          connectedCallback() {
+            const root = this.attachShadow({ mode: 'open' });
+            root.adoptedStyleSheets = [sheet];
+            root.innerHTML = '<h2>' + this.getAttribute('name') + '</h2><badge-label></badge-label><slot name="price"></slot>';
+          }
+        });
+        customElements.define('badge-label', class extends HTMLElement {
+          connectedCallback() {
+            this.attachShadow({ mode: 'open' }).innerHTML = '<em>New &amp; improved</em>';
+          }
+        });
+        customElements.define('closed-widget', class extends HTMLElement {
+          connectedCallback() {
+            this.attachShadow({ mode: 'closed' }).innerHTML = '<p>Hidden</p>';
+          }
+        });
+      </script>
+    </body></html>`;
+
+  // A page whose look depends on what its scripts did: CSSOM rules, a drawn canvas, a filled-in field
+  const scripted = `<!DOCTYPE html>
+    <html><head><style id="css-in-js"></style></head><body>
+      <button onclick="alert('hi')">Go</button>
+      <a href="javascript:void(0)">Menu</a>
+      <input id="email"><input type="password" id="secret">
+      <canvas id="chart" width="20" height="10" class="chart"></canvas>
+      <noscript>Please enable JavaScript</noscript>
+      <script>
+        document.getElementById('css-in-js').sheet.insertRule('.chart { border: 1px solid blue; }');
+        document.getElementById('chart').getContext('2d').fillRect(0, 0, 20, 10);
+        document.getElementById('email').value = 'a@example.com';
+        document.getElementById('secret').value = 'hunter2';
+      </script>
+    </body></html>`;
+
+  beforeAll(async () => {
+    browser = await chromium.launch();
+    server = http.createServer((req, res) => {
+      res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' });
+      // The snapshot is served without its component scripts, as if they failed under replay
+      res.end(req.url === '/snapshot' ? snapshot.replace(/<script>[\s\S]*?<\/script>/g, '') : req.url === '/scripted' ? scripted : app);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const page = await browser.newPage();
+    await page.goto(`${baseUrl}/`);
+    serialized = await new ShadowDomSerializer().serialize(page);
+    await page.close();
+    snapshot = serialized.html;
+  }, 60000);
+
+  afterAll(async () => {
+    await browser.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should write open shadow roots and adopted stylesheets into the HTML', () => {
+    expect(serialized.shadowRoots).toBe(2);
+    expect(serialized.adoptedStyleSheets).toBe(1);
+    expect(snapshot).toMatch(/^<!DOCTYPE html>/);
+    expect(snapshot).toContain('<product-card name="Lamp"><template shadowrootmode="open"><h2>Lamp</h2>');
+    expect(snapshot).toContain('<em>New &amp; improved</em>');
+    expect(snapshot).toContain('<style data-adopted-stylesheet>h2 { color: rgb(255, 0, 0); }</style></template>');
+    expect(snapshot).not.toContain('Hidden');
+  });
+
+  it('should render the components from the snapshot without their scripts', async () => {
+    const page = await browser.newPage();
+    await page.goto(`${baseUrl}/snapshot`);
+    const rendered = await page.evaluate(() => {
+      const card = document.querySelector('product-card')!;
+      const heading = card.shadowRoot!.querySelector('h2')!;
+      return {
+        heading: heading.textContent,
+        color: getComputedStyle(heading).color,
+        badge: card.shadowRoot!.querySelector('badge-label')!.shadowRoot!.textContent,
+        defined: !!customElements.get('product-card'),
+      };
+    });
+    await page.close();
+
+    expect(rendered).toEqual({ heading: 'Lamp', color: 'rgb(255, 0, 0)', badge: 'New & improved', defined: false });
+  }, 60000);
+
+  it('should freeze a page without its scripts, keeping what they rendered', async () => {
+    const page = await browser.newPage();
+    await page.goto(`${baseUrl}/scripted`);
+    const result = await new ShadowDomSerializer().serialize(page, { frozen: true });
+    await page.close();
+
+    expect(result.canvases).toBe(1);
+    expect(result.html).not.toMatch(/<script|<noscript|onclick|javascript:/);
+    expect(result.html).toContain('.chart { border: 1px solid blue; }');
+    expect(result.html).toMatch(/<img id="chart" class="chart" src="data:image\/png;base64,[^"]+" width="20" height="10">/);
+    expect(result.html).toContain('<input id="email" value="a@example.com">');
+    expect(result.html).not.toContain('hunter2');
+  }, 60000);
+});
+
+describe('getStaticPagePath', () => {
+  it('should save frozen snapshots next to their pages', () => {
+    expect(getStaticPagePath('about/index.html')).toBe('about/index.static.html');
+    expect(getStaticPagePath('products-1x2y3z.html')).toBe('products-1x2y3z.static.html');
+    expect(getStaticPagePath('report.php')).toBe('report.php.static.html');
+  });
+});
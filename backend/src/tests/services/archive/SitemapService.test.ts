@@ -0,0 +1,45 @@
+import { SitemapService } from '../../../services/archive/SitemapService.ts';
+
+describe('SitemapService', () => {
+  let sitemapService: SitemapService;
+
+  beforeEach(() => {
+    sitemapService = new SitemapService();
+  });
+
+  describe('parseSitemap', () => {
+    it('should extract page URLs from a urlset', () => {
+      const xml = `<?xml version="1.0" encoding="UTF-8"?>
+        <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+          <url><loc>https://example.com/</loc><lastmod>2025-01-01</lastmod></url>
+          <url><loc> https://example.com/orphan-page </loc></url>
+        </urlset>`;
+
+      const result = sitemapService.parseSitemap(xml);
+
+      expect(result.urls).toEqual(['https://example.com/', 'https://example.com/orphan-page']);
+      expect(result.sitemaps).toHaveLength(0);
+    });
+
+    it('should extract nested sitemaps from a sitemap index', () => {
+      const xml = `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+          <sitemap><loc>https://example.com/sitemap-posts.xml.gz</loc></sitemap>
+          <sitemap><loc>https://example.com/sitemap-pages.xml</loc></sitemap>
+        </sitemapindex>`;
+
+      const result = sitemapService.parseSitemap(xml);
+
+      expect(result.sitemaps).toEqual([
+        'https://example.com/sitemap-posts.xml.gz',
+        'https://example.com/sitemap-pages.xml',
+      ]);
+      expect(result.urls).toHaveLength(0);
+    });
+
+    it('should accept plain-text sitemaps', () => {
+      const result = sitemapService.parseSitemap('https://example.com/a\nhttps://example.com/b\nnot a url\n');
+
+      expect(result.urls).toEqual(['https://example.com/a', 'https://example.com/b']);
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { UrlNormalizer } from '../../../services/archive/UrlNormalizer.ts';
+
+describe('UrlNormalizer', () => {
+  let normalizer: UrlNormalizer;
+
+  beforeEach(() => {
+    normalizer = new UrlNormalizer();
+  });
+
+  it('should strip fragments', () => {
+    expect(normalizer.normalize('https://example.com/about#team')).toBe('https://example.com/about');
+  });
+
+  it('should drop tracking parameters and sort the rest', () => {
+    expect(normalizer.normalize('https://example.com/list?utm_source=x&b=2&fbclid=abc&a=1'))
+      .toBe('https://example.com/list?a=1&b=2');
+  });
+
+  it('should lowercase hosts, drop default ports and trailing slashes', () => {
+    expect(normalizer.normalize('HTTPS://Example.COM:443/Docs/')).toBe('https://example.com/Docs');
+    expect(normalizer.normalize('https://example.com/')).toBe('https://example.com/');
+  });
+
+  it('should resolve relative URLs against a base', () => {
+    expect(normalizer.normalize('../pricing?utm_medium=email', 'https://example.com/products/item'))
+      .toBe('https://example.com/pricing');
+  });
+
+  it('should respect custom options', () => {
+    const custom = new UrlNormalizer({ trackingParams: ['session'], sortQuery: false, stripTrailingSlash: false });
+
+    expect(custom.normalize('https://example.com/a/?z=1&session=9&utm_source=x'))
+      .toBe('https://example.com/a/?z=1&utm_source=x');
+  });
+
+  it('should leave non-http URLs alone', () => {
+    expect(normalizer.normalize('mailto:hello@example.com')).toBe('mailto:hello@example.com');
+  });
+});
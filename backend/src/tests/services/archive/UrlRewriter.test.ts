@@ -0,0 +1,35 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { UrlRewriter } from '../../../services/archive/UrlRewriter.ts';
+
+describe('UrlRewriter', () => {
+  const originalCwd = process.cwd();
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rewriter-'));
+    process.chdir(tempDir);
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should point anchors at the local copy of a linked document, keeping their fragment', async () => {
+    const html = [
+      '<a id="absolute" href="https://example.com/files/report.pdf">Report</a>',
+      '<a id="fragment" href="/files/report.pdf#page=2">Page 2</a>',
+      '<a id="missing" href="/files/other.pdf">Other</a>',
+    ].join('');
+    const urlMappings = new Map([['https://example.com/files/report.pdf', 'assets/documents/report.pdf']]);
+
+    await new UrlRewriter().rewriteUrls([{ url: 'https://example.com/', html, path: 'index.html' }], urlMappings, 'a1');
+
+    const rewritten = await fs.readFile(path.join(tempDir, 'archives', 'a1', 'index.html'), 'utf8');
+    expect(rewritten).toContain('id="absolute" href="assets/documents/report.pdf"');
+    expect(rewritten).toContain('id="fragment" href="assets/documents/report.pdf#page=2"');
+    expect(rewritten).toContain('id="missing" href="/files/other.pdf"');
+  });
+});
@@ -0,0 +1,85 @@
+import { PassThrough } from 'stream';
+import zlib from 'zlib';
+import AdmZip from 'adm-zip';
+import { WarcReader } from '../../../services/archive/WarcReader.ts';
+import { WarcWriter } from '../../../services/archive/WarcWriter.ts';
+import { CaptureRecord } from '../../../services/archive/CaptureStore.ts';
+
+describe('WarcReader', () => {
+  let reader: WarcReader;
+
+  const record: CaptureRecord = {
+    url: 'https://example.com/',
+    method: 'GET',
+    status: 200,
+    statusText: 'OK',
+    requestHeaders: { 'user-agent': 'test-agent' },
+    responseHeaders: { 'content-type': 'text/html' },
+    kind: 'page',
+    bodyFile: 'bodies/abc.bin',
+    size: 13,
+    capturedAt: '2025-01-15T10:30:00.000Z',
+  };
+
+  async function writeWarc(): Promise<Buffer> {
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', chunk => chunks.push(chunk));
+    const writer = new WarcWriter(output);
+    await writer.writeWarcinfo('test.warc.gz', { software: 'test' });
+    const responseId = await writer.writeResponse(record, Buffer.from('<p>Hello</p>'));
+    await writer.writeRequest(record, responseId);
+    output.end();
+    return Buffer.concat(chunks);
+  }
+
+  beforeEach(() => {
+    reader = new WarcReader();
+  });
+
+  it('should read back records written by WarcWriter', async () => {
+    const { records } = reader.readFile(await writeWarc(), 'test.warc.gz');
+
+    expect(records.map(r => r.type)).toEqual(['warcinfo', 'response', 'request']);
+    expect(records[1].targetUri).toBe('https://example.com/');
+
+    const response = reader.parseHttpResponse(records[1].block)!;
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('text/html');
+    expect(response.body.toString()).toBe('<p>Hello</p>');
+
+    const request = reader.parseHttpRequest(records[2].block)!;
+    expect(request.method).toBe('GET');
+    expect(request.headers['user-agent']).toBe('test-agent');
+  });
+
+  it('should decode chunked and gzipped payloads', () => {
+    const payload = zlib.gzipSync(Buffer.from('body { color: red; }'));
+    const chunked = Buffer.concat([
+      Buffer.from(`${payload.length.toString(16)}\r\n`),
+      payload,
+      Buffer.from('\r\n0\r\n\r\n'),
+    ]);
+    const block = Buffer.concat([
+      Buffer.from('HTTP/1.1 200 OK\r\nContent-Type: text/css\r\nTransfer-Encoding: chunked\r\nContent-Encoding: gzip\r\n\r\n'),
+      chunked,
+    ]);
+
+    const response = reader.parseHttpResponse(block)!;
+    expect(response.body.toString()).toBe('body { color: red; }');
+  });
+
+  it('should read WARCs and the main page from a WACZ package', async () => {
+    const zip = new AdmZip();
+    zip.addFile('archive/data.warc.gz', await writeWarc());
+    zip.addFile('datapackage.json', Buffer.from(JSON.stringify({ mainPageUrl: 'https://example.com/' })));
+
+    const { records, mainPageUrl } = reader.readFile(zip.toBuffer(), 'capture.wacz');
+    expect(mainPageUrl).toBe('https://example.com/');
+    expect(records).toHaveLength(3);
+  });
+
+  it('should reject data that is not a WARC', () => {
+    expect(() => reader.readFile(Buffer.from('<html>\r\n\r\n</html>'), 'page.html')).toThrow('Invalid WARC record');
+  });
+});
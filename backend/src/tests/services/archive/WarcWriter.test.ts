@@ -0,0 +1,97 @@
+import { PassThrough } from 'stream';
+import zlib from 'zlib';
+import { WarcWriter } from '../../../services/archive/WarcWriter.ts';
+import { CaptureRecord } from '../../../services/archive/CaptureStore.ts';
+
+describe('WarcWriter', () => {
+  const record: CaptureRecord = {
+    url: 'https://example.com/about?ref=nav',
+    method: 'GET',
+    status: 200,
+    statusText: 'OK',
+    requestHeaders: { 'user-agent': 'test-agent' },
+    responseHeaders: {
+      'content-type': 'text/html',
+      'content-encoding': 'gzip',
+      'content-length': '12',
+      'set-cookie': 'a=1\nb=2',
+    },
+    kind: 'page',
+    bodyFile: 'bodies/abc.bin',
+    size: 26,
+    capturedAt: '2025-01-15T10:30:00.123Z',
+    outlinks: ['https://example.com/contact'],
+  };
+  const body = Buffer.from('<html><body>Hi</body></html>');
+
+  async function collect(write: (writer: WarcWriter) => Promise<void>): Promise<string> {
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', chunk => chunks.push(chunk));
+    await write(new WarcWriter(output));
+    output.end();
+    return zlib.gunzipSync(Buffer.concat(chunks)).toString('utf8');
+  }
+
+  it('should write a response record with the original payload', async () => {
+    const warc = await collect(async writer => {
+      await writer.writeResponse(record, body);
+    });
+
+    expect(warc.startsWith('WARC/1.1\r\n')).toBe(true);
+    expect(warc).toContain('WARC-Type: response');
+    expect(warc).toContain('WARC-Target-URI: https://example.com/about?ref=nav');
+    expect(warc).toContain('WARC-Date: 2025-01-15T10:30:00Z');
+    expect(warc).toContain('HTTP/1.1 200 OK\r\n');
+    expect(warc).toContain('set-cookie: a=1\r\nset-cookie: b=2\r\n');
+    expect(warc).toContain(`content-length: ${body.length}\r\n`);
+    expect(warc).not.toContain('content-encoding');
+    expect(warc).toMatch(/WARC-Payload-Digest: sha1:[A-Z2-7]{32}/);
+    expect(warc.endsWith('<html><body>Hi</body></html>\r\n\r\n')).toBe(true);
+  });
+
+  it('should declare a block length that matches the record body', async () => {
+    const warc = await collect(async writer => {
+      await writer.writeResponse(record, body);
+    });
+
+    const [head, ...rest] = warc.split('\r\n\r\n');
+    const declared = Number(head.match(/Content-Length: (\d+)/)![1]);
+    const block = rest.join('\r\n\r\n').slice(0, -4);
+    expect(Buffer.byteLength(block)).toBe(declared);
+  });
+
+  it('should link request and metadata records to the response', async () => {
+    let responseId = '';
+    const warc = await collect(async writer => {
+      responseId = await writer.writeResponse(record, body);
+      await writer.writeRequest(record, responseId);
+      await writer.writeMetadata(record, responseId);
+    });
+
+    expect(responseId).toMatch(/^<urn:uuid:[0-9a-f-]{36}>$/);
+    expect(warc).toContain('GET /about?ref=nav HTTP/1.1\r\nhost: example.com\r\nuser-agent: test-agent');
+    expect(warc.split(`WARC-Concurrent-To: ${responseId}`)).toHaveLength(3);
+    expect(warc).toContain('outlink: https://example.com/contact');
+  });
+
+  it('should write a followed redirect as a bodiless response for the URL it came from', async () => {
+    const warc = await collect(async writer => {
+      await writer.writeRedirect({ url: 'http://example.com/about', status: 301, location: 'https://example.com/about?ref=nav' }, record.capturedAt);
+    });
+
+    expect(warc).toContain('WARC-Type: response');
+    expect(warc).toContain('WARC-Target-URI: http://example.com/about');
+    expect(warc).toContain('HTTP/1.1 301\r\nlocation: https://example.com/about?ref=nav\r\ncontent-length: 0\r\n\r\n');
+  });
+
+  it('should record a redirect of unknown status as metadata rather than make up a response', async () => {
+    const warc = await collect(async writer => {
+      await writer.writeRedirect({ url: 'http://example.com/about', location: 'https://example.com/about' }, record.capturedAt);
+    });
+
+    expect(warc).toContain('WARC-Type: metadata');
+    expect(warc).not.toContain('HTTP/1.1');
+    expect(warc).toContain('redirect-location: https://example.com/about\r\n');
+  });
+});
@@ -1,10 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 
 interface Archive {
   id: string;
   url: string;
-  status: 'processing' | 'completed' | 'failed';
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'interrupted' | 'paused' | 'cancelled';
   createdAt: string;
   completedAt?: string;
   error?: string;
@@ -13,11 +13,35 @@ interface Archive {
   totalSize?: number;
   version?: number;
   originalUrl?: string;
+  profile?: CaptureProfile;
 }
 
+interface CaptureProfile {
+  name: 'desktop' | 'tablet' | 'mobile' | 'custom';
+  viewport: { width: number; height: number };
+  deviceScaleFactor: number;
+  locale?: string;
+  timezoneId?: string;
+}
+
+const describeProfile = (profile: CaptureProfile) => {
+  const name = profile.name.charAt(0).toUpperCase() + profile.name.slice(1);
+  return `${name} · ${profile.viewport.width}×${profile.viewport.height} @${profile.deviceScaleFactor}x`;
+};
+
+// Same parameter the viewer API reads, namespaced so it doesn't clash with the archived site's own
+const REPLAY_PARAM = '__replay';
+
+// Cancelled archives can keep their partial capture
+const isViewable = (archive: Archive) =>
+  archive.status === 'completed' || (archive.status === 'cancelled' && !!archive.pageCount);
+
 const ArchiveViewer: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // static: the frozen DOM snapshot without scripts; interactive: the archived page with its JavaScript
+  const replayMode = searchParams.get(REPLAY_PARAM) === 'static' ? 'static' : 'interactive';
   const [archive, setArchive] = useState<Archive | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -25,6 +49,7 @@ const ArchiveViewer: React.FC = () => {
   const [versions, setVersions] = useState<Archive[]>([]);
   const [showVersions, setShowVersions] = useState(false);
   const [reArchiveSuccess, setReArchiveSuccess] = useState<{id: string, version: number} | null>(null);
+  const [fitToWindow, setFitToWindow] = useState(false);
 
   useEffect(() => {
     if (id) {
@@ -34,7 +59,7 @@ const ArchiveViewer: React.FC = () => {
 
   // Auto-refresh for processing archives
   useEffect(() => {
-    if (archive?.status === 'processing') {
+    if (archive?.status === 'processing' || archive?.status === 'queued') {
       const interval = setInterval(() => {
         fetchArchiveStatus();
       }, 5000); // Check every 5 seconds
@@ -53,7 +78,7 @@ const ArchiveViewer: React.FC = () => {
       const archiveData = await response.json();
       setArchive(archiveData);
       
-      if (archiveData.status !== 'completed') {
+      if (!isViewable(archiveData)) {
         setError('Archive is not ready for viewing');
       }
     } catch (err) {
@@ -144,7 +169,7 @@ const ArchiveViewer: React.FC = () => {
     );
   }
 
-  if (archive.status !== 'completed') {
+  if (!isViewable(archive)) {
     return (
       <div className="min-h-screen bg-white">
         <div className="max-w-7xl mx-auto py-12 px-4 sm:px-6 lg:px-8">
@@ -171,7 +196,7 @@ const ArchiveViewer: React.FC = () => {
                     This usually takes 1-2 minutes. You can check back later or return to the archives list.
                   </p>
                 )}
-                {archive.status === 'failed' && archive.error && (
+                {(archive.status === 'failed' || archive.status === 'interrupted') && archive.error && (
                   <p className="text-sm text-red-600 mt-1">
                     Error: {archive.error}
                   </p>
@@ -201,7 +226,17 @@ const ArchiveViewer: React.FC = () => {
   }
 
   // If archive is ready, display it in an iframe
-  const archiveUrl = `http://localhost:3001/api/archives/view/${id}`;
+  const archiveUrl = `http://localhost:3001/api/archives/view/${id}${replayMode === 'static' ? `?${REPLAY_PARAM}=static` : ''}`;
+
+  const setReplayMode = (mode: 'static' | 'interactive') => {
+    const params = new URLSearchParams(searchParams);
+    if (mode === 'static') {
+      params.set(REPLAY_PARAM, 'static');
+    } else {
+      params.delete(REPLAY_PARAM);
+    }
+    setSearchParams(params);
+  };
 
   return (
     <div className="h-screen flex flex-col bg-white">
@@ -224,11 +259,37 @@ const ArchiveViewer: React.FC = () => {
         <div className="flex items-center space-x-4">
           <div className="flex items-center space-x-4 text-sm text-gray-600">
             {archive.version && <span>Version: {archive.version}</span>}
+            {archive.profile && (
+              <span title={[archive.profile.locale, archive.profile.timezoneId].filter(Boolean).join(', ') || undefined}>
+                {describeProfile(archive.profile)}
+              </span>
+            )}
             {archive.pageCount && <span>Pages: {archive.pageCount}</span>}
             {archive.assetCount && <span>Assets: {archive.assetCount}</span>}
             <span>Archived: {new Date(archive.createdAt).toLocaleDateString()}</span>
           </div>
           <div className="flex items-center space-x-2">
+            <div className="flex text-sm border border-gray-300 rounded overflow-hidden" title="Static shows the frozen page without scripts">
+              {(['interactive', 'static'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setReplayMode(mode)}
+                  className={`px-3 py-1 transition-colors ${
+                    replayMode === mode ? 'bg-gray-800 text-white' : 'bg-white hover:bg-gray-50'
+                  }`}
+                >
+                  {mode === 'interactive' ? '⚡ Interactive' : '🧊 Static'}
+                </button>
+              ))}
+            </div>
+            {archive.profile && (
+              <button
+                onClick={() => setFitToWindow(!fitToWindow)}
+                className="flex items-center px-3 py-1 text-sm bg-white border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+              >
+                {fitToWindow ? '📱 Recorded Viewport' : '⤢ Fit to Window'}
+              </button>
+            )}
             <button
               onClick={fetchVersions}
               className="flex items-center px-3 py-1 text-sm bg-white border border-gray-300 rounded hover:bg-gray-50 transition-colors"
@@ -342,6 +403,9 @@ const ArchiveViewer: React.FC = () => {
                           <div>Status: <span className={`font-medium ${
                             version.status === 'completed' ? 'text-green-600' :
                             version.status === 'processing' ? 'text-yellow-600' :
+                            version.status === 'queued' ? 'text-purple-600' :
+                            version.status === 'interrupted' ? 'text-orange-600' :
+                            version.status === 'paused' ? 'text-blue-600' :
                             'text-red-600'
                           }`}>{version.status}</span></div>
                           {version.pageCount && <div>Pages: {version.pageCount}</div>}
@@ -357,11 +421,13 @@ const ArchiveViewer: React.FC = () => {
         </div>
       )}
 
-      {/* Archive viewer iframe */}
-      <div className="flex-1 relative">
+      {/* Archive viewer iframe, framed at the viewport it was captured with */}
+      <div className={`flex-1 relative ${archive.profile && !fitToWindow ? 'overflow-auto bg-gray-100 p-6' : ''}`}>
         <iframe
+          key={replayMode}
           src={archiveUrl}
-          className="w-full h-full border-0"
+          className={archive.profile && !fitToWindow ? 'mx-auto block box-content bg-white border border-gray-300 shadow-lg' : 'w-full h-full border-0'}
+          style={archive.profile && !fitToWindow ? { width: archive.profile.viewport.width, height: archive.profile.viewport.height } : undefined}
           title={`Archive of ${archive.url}`}
           sandbox="allow-scripts allow-same-origin allow-forms"
           onLoad={() => {
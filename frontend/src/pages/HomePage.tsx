@@ -6,6 +6,7 @@ const HomePage: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [profile, setProfile] = useState<'desktop' | 'tablet' | 'mobile'>('desktop');
   const navigate = useNavigate();
 
   const handleArchive = async () => {
@@ -32,7 +33,7 @@ const HomePage: React.FC = () => {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ url }),
+        body: JSON.stringify({ url, profile }),
       });
 
       if (!response.ok) {
@@ -116,6 +117,25 @@ const HomePage: React.FC = () => {
           </button>
         </div>
 
+        {/* Device the pages are rendered as */}
+        <div className="mt-4 flex items-center justify-center space-x-2 text-sm text-gray-600">
+          <span>Capture as:</span>
+          {(['desktop', 'tablet', 'mobile'] as const).map((name) => (
+            <button
+              key={name}
+              onClick={() => setProfile(name)}
+              disabled={isLoading}
+              className={`px-3 py-1 rounded-md border transition-colors ${
+                profile === name
+                  ? 'border-black bg-black text-white'
+                  : 'border-gray-300 bg-white hover:bg-gray-50'
+              }`}
+            >
+              {name.charAt(0).toUpperCase() + name.slice(1)}
+            </button>
+          ))}
+        </div>
+
         {/* Status messages */}
         {error && (
           <div className="mt-4 max-w-3xl mx-auto">
@@ -4,7 +4,7 @@ import { useNavigate } from 'react-router-dom';
 interface Archive {
   id: string;
   url: string;
-  status: 'processing' | 'completed' | 'failed';
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'interrupted' | 'paused' | 'cancelled';
   createdAt: string;
   completedAt?: string;
   error?: string;
@@ -52,7 +52,7 @@ const SearchPage: React.FC = () => {
 
   // Auto-refresh if there are processing archives
   useEffect(() => {
-    const hasProcessingArchives = archives.some(archive => archive.status === 'processing');
+    const hasProcessingArchives = archives.some(archive => archive.status === 'processing' || archive.status === 'queued');
     
     if (hasProcessingArchives) {
       console.log('🔄 Starting auto-refresh for processing archives');
@@ -112,7 +112,10 @@ const SearchPage: React.FC = () => {
     switch (status) {
       case 'completed': return 'text-green-600 bg-green-100';
       case 'processing': return 'text-yellow-600 bg-yellow-100';
+      case 'queued': return 'text-purple-600 bg-purple-100';
       case 'failed': return 'text-red-600 bg-red-100';
+      case 'interrupted': return 'text-orange-600 bg-orange-100';
+      case 'paused': return 'text-blue-600 bg-blue-100';
       default: return 'text-gray-600 bg-gray-100';
     }
   };
@@ -244,7 +247,7 @@ const SearchPage: React.FC = () => {
                   </div>
 
                   <div className="mt-4 pt-4 border-t border-gray-200">
-                    {archive.status === 'completed' && (
+                    {(archive.status === 'completed' || (archive.status === 'cancelled' && !!archive.pageCount)) && (
                       <button className="w-full px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors">
                         View Archive
                       </button>
@@ -264,6 +267,18 @@ const SearchPage: React.FC = () => {
                         Failed - Click to view details
                       </button>
                     )}
+
+                    {archive.status === 'queued' && (
+                      <button className="w-full px-4 py-2 bg-purple-100 text-purple-800 rounded border border-purple-300 cursor-pointer hover:bg-purple-200 transition-colors">
+                        Queued - Waiting for a free worker
+                      </button>
+                    )}
+
+                    {(archive.status === 'interrupted' || archive.status === 'paused') && (
+                      <button className="w-full px-4 py-2 bg-orange-100 text-orange-800 rounded border border-orange-300 cursor-pointer hover:bg-orange-200 transition-colors">
+                        {archive.status === 'paused' ? 'Paused' : 'Interrupted'} - Click to view details
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>